@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { PROTOCOL_VERSION, parseAgentMessage, parseClientMessage } from './protocol'
+
+describe('parseAgentMessage', () => {
+  it('accepts a well-formed message', () => {
+    const message = { type: 'ready', timestamp: 1, protocolVersion: PROTOCOL_VERSION, resumed: false, seq: 1, epoch: 'a' }
+    expect(parseAgentMessage(message)).toEqual({ ok: true, message })
+  })
+
+  it('rejects values that are not messages', () => {
+    for (const value of [null, undefined, 'ready', 42, [], {}, { type: 7 }]) {
+      expect(parseAgentMessage(value)).toEqual({ ok: false, error: 'message has no type' })
+    }
+  })
+
+  it('rejects unknown types, including inherited property names', () => {
+    expect(parseAgentMessage({ type: 'shutdown', timestamp: 1 }))
+      .toEqual({ ok: false, error: 'unknown message type "shutdown"' })
+    expect(parseAgentMessage({ type: 'toString', timestamp: 1 }).ok).toBe(false)
+  })
+
+  it('rejects a message without its envelope', () => {
+    expect(parseAgentMessage({ type: 'error', message: 'boom' }))
+      .toEqual({ ok: false, error: 'invalid error message: missing timestamp' })
+    expect(parseAgentMessage({ type: 'error', message: 'boom', timestamp: 1, seq: '1' }))
+      .toEqual({ ok: false, error: 'invalid error message: seq should be number, got string' })
+  })
+
+  it('rejects missing and mistyped fields', () => {
+    expect(parseAgentMessage({ type: 'assistant_delta', timestamp: 1, messageId: 'm' }))
+      .toEqual({ ok: false, error: 'invalid assistant_delta message: missing text' })
+    expect(parseAgentMessage({ type: 'tool_use', timestamp: 1, toolName: 'ListTodos', toolInput: [] }))
+      .toEqual({ ok: false, error: 'invalid tool_use message: toolInput should be object, got array' })
+    expect(parseAgentMessage({ type: 'assistant_message', timestamp: 1, content: null }))
+      .toEqual({ ok: false, error: 'invalid assistant_message message: content should be string, got null' })
+  })
+
+  it('allows optional fields to be left out but not mistyped', () => {
+    expect(parseAgentMessage({ type: 'assistant_message', timestamp: 1, content: 'hi' }).ok).toBe(true)
+    expect(parseAgentMessage({ type: 'assistant_message', timestamp: 1, content: 'hi', messageId: 3 }).ok).toBe(false)
+  })
+})
+
+describe('parseClientMessage', () => {
+  it('takes the type from the event name', () => {
+    expect(parseClientMessage('user_message', { content: 'hello' }))
+      .toEqual({ ok: true, message: { type: 'user_message', content: 'hello' } })
+    expect(parseClientMessage('interrupt', undefined))
+      .toEqual({ ok: true, message: { type: 'interrupt' } })
+  })
+
+  it('does not let the payload override the type', () => {
+    expect(parseClientMessage('interrupt', { type: 'user_message' }))
+      .toEqual({ ok: true, message: { type: 'interrupt' } })
+  })
+
+  it('rejects unknown events', () => {
+    expect(parseClientMessage('agent_message', {}))
+      .toEqual({ ok: false, error: 'unknown client message type "agent_message"' })
+    expect(parseClientMessage('constructor', {}).ok).toBe(false)
+  })
+
+  it('rejects malformed payloads', () => {
+    expect(parseClientMessage('user_message', 'hello'))
+      .toEqual({ ok: false, error: 'invalid user_message message: missing content' })
+    expect(parseClientMessage('approve', { requestId: 12 }))
+      .toEqual({ ok: false, error: 'invalid approve message: requestId should be string, got number' })
+    expect(parseClientMessage('resync', { afterSeq: 'all' }).ok).toBe(false)
+  })
+
+  it('accepts a resync from a client that has no epoch yet', () => {
+    expect(parseClientMessage('resync', { afterSeq: 0, epoch: null }).ok).toBe(true)
+    expect(parseClientMessage('resync', { afterSeq: 0 }).ok).toBe(true)
+  })
+})
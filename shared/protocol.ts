@@ -0,0 +1,299 @@
+// Message protocol between the sandbox agent and the frontend
+// Both sides import this module: the agent bundles it with esbuild, the frontend with Vite.
+// Agent messages travel on the 'agent_message' broadcast event; client messages use
+// their type as the broadcast event name with the remaining fields as the payload.
+
+// Bump when a change would break older agents or frontends
+export const PROTOCOL_VERSION = 4
+
+// === Agent -> frontend ===
+
+export const MessageTypes = {
+  READY: 'ready',
+  ASSISTANT_MESSAGE: 'assistant_message',
+  ASSISTANT_DELTA: 'assistant_delta',
+  TOOL_USE: 'tool_use',
+  TOOL_RESULT: 'tool_result',
+  SLASH_OUTPUT: 'slash_output',
+  PERMISSION_REQUEST: 'permission_request',
+  PERMISSION_RESULT: 'permission_result',
+  TURN_COMPLETE: 'turn_complete',
+  CONTEXT_COMPACTED: 'context_compacted',
+  RECONNECTED: 'reconnected',
+  ERROR: 'error',
+  COMPLETE: 'complete'
+} as const
+
+// Fields every agent message carries; seq/epoch are added when broadcast (not in transcripts)
+type Envelope = {
+  timestamp: number
+  seq?: number // position in the agent's stream, numbered from 1 per epoch
+  epoch?: string // changes whenever a new agent process starts numbering again
+}
+
+export type ReadyMessage = Envelope & {
+  type: 'ready'
+  protocolVersion: number
+  resumed: boolean // the previous conversation was restored
+}
+
+export type AssistantMessage = Envelope & {
+  type: 'assistant_message'
+  content: string
+  messageId?: string // shared with the assistant_delta chunks streamed for it
+}
+
+export type AssistantDeltaMessage = Envelope & {
+  type: 'assistant_delta'
+  messageId: string
+  text: string
+}
+
+export type ToolUseMessage = Envelope & {
+  type: 'tool_use'
+  toolName: string
+  toolInput: Record<string, unknown>
+  toolUseId?: string // pairs it with its tool_result
+}
+
+export type ToolResultMessage = Envelope & {
+  type: 'tool_result'
+  toolUseId: string
+  isError: boolean
+  content: string
+  truncated: boolean // content was cut off by the agent
+}
+
+export type SlashOutputMessage = Envelope & {
+  type: 'slash_output'
+  content: string
+}
+
+export type PermissionRequestMessage = Envelope & {
+  type: 'permission_request'
+  requestId: string
+  toolName: string
+  toolInput: Record<string, unknown>
+  toolUseId: string
+}
+
+export type PermissionResultMessage = Envelope & {
+  type: 'permission_result'
+  requestId: string
+  approved: boolean
+  reason: string
+}
+
+export type TurnCompleteMessage = Envelope & {
+  type: 'turn_complete'
+  interrupted: boolean
+}
+
+// The conversation so far was replaced by a summary; the messages before this are no longer in the model's context
+export type ContextCompactedMessage = Envelope & {
+  type: 'context_compacted'
+  trigger: 'auto' | 'manual' // the agent compacted a long conversation, or the user ran /compact
+  preTokens: number // context size before compacting
+}
+
+// The agent lost its channel and joined it again; messages it sent meanwhile were delivered just before this
+export type ReconnectedMessage = Envelope & {
+  type: 'reconnected'
+  attempts: number // tries it took to rejoin
+  downtimeMs: number // how long the agent was off the channel
+}
+
+export type ErrorMessage = Envelope & {
+  type: 'error'
+  message: string
+}
+
+// How a non-interactive run ended
+export type CompletionStatus = 'success' | 'error' | 'max_turns' | 'interrupted'
+
+export type TokenUsage = {
+  inputTokens: number
+  outputTokens: number
+  cacheReadInputTokens: number
+  cacheCreationInputTokens: number
+}
+
+// A write a dry run would have made, recorded instead of executed.
+// before holds the fields the change replaces (the whole row for a delete), after the
+// fields it sets (the whole row for an insert); the frontend applies the set in order.
+export type ChangeTable = 'todos' | 'categories'
+
+export type ProposedChange = {
+  tool: string // the tool that proposed it, e.g. 'UpdateTodo'
+  table: ChangeTable
+  operation: 'insert' | 'update' | 'delete'
+  id: string // the row's ID; inserts get theirs up front so later changes can refer to it
+  before: Record<string, unknown> | null // null for inserts
+  after: Record<string, unknown> | null // null for deletes
+}
+
+// Sent once when a non-interactive run ends, however it ended
+export type CompleteMessage = Envelope & {
+  type: 'complete'
+  status: CompletionStatus
+  result: string // the model's final answer ('' unless the run succeeded)
+  error?: string // what went wrong, for error and max_turns
+  durationMs: number
+  numTurns: number
+  usage: TokenUsage
+  costUsd: number
+  toolCalls: Record<string, number> // calls per tool name
+  structuredOutput?: Record<string, unknown> // the validated answer, when the run was given an output schema
+  proposedChanges?: ProposedChange[] // what a dry run would have changed, in order
+}
+
+export type AgentMessage =
+  | ReadyMessage
+  | AssistantMessage
+  | AssistantDeltaMessage
+  | ToolUseMessage
+  | ToolResultMessage
+  | SlashOutputMessage
+  | PermissionRequestMessage
+  | PermissionResultMessage
+  | TurnCompleteMessage
+  | ContextCompactedMessage
+  | ReconnectedMessage
+  | ErrorMessage
+  | CompleteMessage
+
+export type AgentMessageType = AgentMessage['type']
+
+// === Frontend -> agent ===
+
+export const ClientMessageTypes = {
+  USER_MESSAGE: 'user_message',
+  INTERRUPT: 'interrupt',
+  APPROVE: 'approve',
+  DENY: 'deny',
+  RESYNC: 'resync'
+} as const
+
+export type UserMessage = { type: 'user_message'; content: string }
+export type InterruptMessage = { type: 'interrupt' }
+export type ApproveMessage = { type: 'approve'; requestId: string }
+export type DenyMessage = { type: 'deny'; requestId: string }
+export type ResyncMessage = { type: 'resync'; afterSeq: number; epoch?: string | null }
+
+export type ClientMessage =
+  | UserMessage
+  | InterruptMessage
+  | ApproveMessage
+  | DenyMessage
+  | ResyncMessage
+
+export type ClientMessageType = ClientMessage['type']
+
+// Broadcast payload for a client message: everything but the type, which is the event name
+export type ClientPayload<T extends ClientMessageType> = Omit<Extract<ClientMessage, { type: T }>, 'type'>
+
+// === Validation ===
+
+// Field specs: a trailing '?' marks an optional field, 'string|null' allows null
+type FieldSpec =
+  | 'string' | 'number' | 'boolean' | 'object'
+  | 'string?' | 'number?' | 'boolean?' | 'object?' | 'array?'
+  | 'string|null?'
+type Shape = Record<string, FieldSpec>
+
+const ENVELOPE_SHAPE: Shape = { timestamp: 'number', seq: 'number?', epoch: 'string?' }
+
+const AGENT_MESSAGE_SHAPES: Record<AgentMessageType, Shape> = {
+  ready: { protocolVersion: 'number', resumed: 'boolean' },
+  assistant_message: { content: 'string', messageId: 'string?' },
+  assistant_delta: { messageId: 'string', text: 'string' },
+  tool_use: { toolName: 'string', toolInput: 'object', toolUseId: 'string?' },
+  tool_result: { toolUseId: 'string', isError: 'boolean', content: 'string', truncated: 'boolean' },
+  slash_output: { content: 'string' },
+  permission_request: { requestId: 'string', toolName: 'string', toolInput: 'object', toolUseId: 'string' },
+  permission_result: { requestId: 'string', approved: 'boolean', reason: 'string' },
+  turn_complete: { interrupted: 'boolean' },
+  context_compacted: { trigger: 'string', preTokens: 'number' },
+  reconnected: { attempts: 'number', downtimeMs: 'number' },
+  error: { message: 'string' },
+  complete: {
+    status: 'string',
+    result: 'string',
+    error: 'string?',
+    durationMs: 'number',
+    numTurns: 'number',
+    usage: 'object',
+    costUsd: 'number',
+    toolCalls: 'object',
+    structuredOutput: 'object?',
+    proposedChanges: 'array?'
+  }
+}
+
+const CLIENT_MESSAGE_SHAPES: Record<ClientMessageType, Shape> = {
+  user_message: { content: 'string' },
+  interrupt: {},
+  approve: { requestId: 'string' },
+  deny: { requestId: 'string' },
+  resync: { afterSeq: 'number', epoch: 'string|null?' }
+}
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Describe the first field that doesn't match its spec, or return null
+function checkShape(value: Record<string, unknown>, shape: Shape): string | null {
+  for (const [field, spec] of Object.entries(shape)) {
+    const optional = spec.endsWith('?')
+    const types = spec.replace('?', '').split('|')
+    const actual = value[field]
+
+    if (actual === undefined) {
+      if (optional) continue
+      return `missing ${field}`
+    }
+    const actualType = actual === null ? 'null' : Array.isArray(actual) ? 'array' : isRecord(actual) ? 'object' : typeof actual
+    if (!types.includes(actualType)) {
+      return `${field} should be ${types.join(' or ')}, got ${actualType}`
+    }
+  }
+  return null
+}
+
+/**
+ * Validate a message received from the agent
+ */
+export function parseAgentMessage(value: unknown): ParseResult<AgentMessage> {
+  if (!isRecord(value) || typeof value.type !== 'string') {
+    return { ok: false, error: 'message has no type' }
+  }
+  if (!Object.hasOwn(AGENT_MESSAGE_SHAPES, value.type)) {
+    return { ok: false, error: `unknown message type "${value.type}"` }
+  }
+
+  const problem = checkShape(value, ENVELOPE_SHAPE) ??
+    checkShape(value, AGENT_MESSAGE_SHAPES[value.type as AgentMessageType])
+  if (problem) {
+    return { ok: false, error: `invalid ${value.type} message: ${problem}` }
+  }
+  return { ok: true, message: value as AgentMessage }
+}
+
+/**
+ * Validate a client message received as a broadcast event and payload
+ */
+export function parseClientMessage(event: string, payload: unknown): ParseResult<ClientMessage> {
+  if (!Object.hasOwn(CLIENT_MESSAGE_SHAPES, event)) {
+    return { ok: false, error: `unknown client message type "${event}"` }
+  }
+
+  const fields = isRecord(payload) ? payload : {}
+  const problem = checkShape(fields, CLIENT_MESSAGE_SHAPES[event as ClientMessageType])
+  if (problem) {
+    return { ok: false, error: `invalid ${event} message: ${problem}` }
+  }
+  return { ok: true, message: { ...fields, type: event } as ClientMessage }
+}
@@ -8,16 +8,27 @@ import { AddTodo } from './components/AddTodo'
 import { CategoryManager } from './components/CategoryManager'
 import { CategorySelect } from './components/CategorySelect'
 import { Chat } from './components/Chat'
+import { MemoryPanel } from './components/MemoryPanel'
 import { PromptPage } from './pages/PromptPage'
+import { UsagePage } from './pages/UsagePage'
 import { Auth } from './components/Auth'
 
-type Tab = 'todos' | 'chat' | 'prompt'
+type Tab = 'todos' | 'chat' | 'prompt' | 'usage'
 
 function App() {
   const { user, session, loading: authLoading, signOut } = useAuth()
   useRealtimeSync(user?.id) // Sync external DB changes (e.g., from chat agent)
   const [activeTab, setActiveTab] = useState<Tab>('todos')
-  const { todos, loading: todosLoading, addTodo, toggleTodo, deleteTodo } = useTodos()
+  const {
+    todos,
+    loading: todosLoading,
+    addTodo,
+    toggleTodo,
+    deleteTodo,
+    setCompletedMany,
+    deleteMany,
+    bulkPending
+  } = useTodos()
   const { categories, loading: categoriesLoading, addCategory, deleteCategory } = useCategories()
   const [filterCategory, setFilterCategory] = useState<string | null>(null)
 
@@ -83,8 +94,21 @@ function App() {
           >
             Prompt
           </button>
+          <button
+            onClick={() => setActiveTab('usage')}
+            className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+              activeTab === 'usage'
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            Usage
+          </button>
         </div>
 
+        {/* The agent's memory carries across chats and prompt runs */}
+        {(activeTab === 'chat' || activeTab === 'prompt') && <MemoryPanel />}
+
         {/* Tab content */}
         {activeTab === 'todos' ? (
           <>
@@ -127,13 +151,18 @@ function App() {
                 filterCategory={filterCategory}
                 onToggle={toggleTodo}
                 onDelete={deleteTodo}
+                onSetCompletedMany={setCompletedMany}
+                onDeleteMany={deleteMany}
+                bulkPending={bulkPending}
               />
             )}
           </>
         ) : activeTab === 'chat' ? (
           <Chat />
-        ) : (
+        ) : activeTab === 'prompt' ? (
           <PromptPage />
+        ) : (
+          <UsagePage />
         )}
       </div>
     </div>
@@ -0,0 +1,85 @@
+import type { AgentOptions } from '../hooks/useAgentOptions'
+import type { RunOptions } from '../hooks/usePrompt'
+import { formatToolName } from '../lib/messages'
+
+export type AgentOverrides = Pick<RunOptions, 'model' | 'maxTurns' | 'systemPromptAppend' | 'allowedTools'>
+
+interface AdvancedOptionsProps {
+  options: AgentOptions | null
+  value: AgentOverrides
+  onChange: (value: AgentOverrides) => void
+}
+
+export function AdvancedOptions({ options, value, onChange }: AdvancedOptionsProps) {
+  if (!options) {
+    return <p className="text-sm text-gray-400">Loading options...</p>
+  }
+
+  const enabledTools = value.allowedTools ?? options.tools
+
+  const toggleTool = (tool: string) => {
+    const next = enabledTools.includes(tool)
+      ? enabledTools.filter(name => name !== tool)
+      : [...enabledTools, tool]
+    // Every tool enabled is the same as not narrowing the set
+    onChange({ ...value, allowedTools: next.length === options.tools.length ? undefined : next })
+  }
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600">
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2">
+          Model:
+          <select
+            value={value.model ?? ''}
+            onChange={(e) => onChange({ ...value, model: e.target.value || undefined })}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Default ({options.models[0]})</option>
+            {options.models.slice(1).map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Max turns:
+          <input
+            type="number"
+            min={1}
+            max={options.maxTurns}
+            value={value.maxTurns ?? ''}
+            placeholder={String(options.maxTurns)}
+            onChange={(e) => onChange({ ...value, maxTurns: e.target.value ? Number(e.target.value) : undefined })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+      </div>
+      <label className="block">
+        Extra instructions:
+        <textarea
+          value={value.systemPromptAppend ?? ''}
+          maxLength={options.maxSystemPromptAppend}
+          onChange={(e) => onChange({ ...value, systemPromptAppend: e.target.value || undefined })}
+          placeholder="Appended to the agent's system prompt"
+          rows={2}
+          className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+        />
+      </label>
+      <div>
+        Tools:
+        <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+          {options.tools.map(tool => (
+            <label key={tool} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={enabledTools.includes(tool)}
+                onChange={() => toggleTool(tool)}
+              />
+              {formatToolName(tool)}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
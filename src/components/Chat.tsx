@@ -2,12 +2,28 @@ import { useAuth } from '../contexts/AuthContext'
 import { useChat } from '../hooks/useChat'
 import { MessageList } from './MessageList'
 import { ChatInput } from './ChatInput'
+import { QuotaBanner } from './QuotaBanner'
+import { SessionUndo } from './SessionUndo'
 
 export function Chat() {
   const { session } = useAuth()
 
-  const { messages, sendMessage, clearMessages, error, connectionState, lostConnection, connect } = useChat({
+  const {
+    messages,
+    sendMessage,
+    interrupt,
+    respondToPermission,
+    isResponding,
+    clearMessages,
+    error,
+    quotaExceeded,
+    connectionState,
+    lostConnection,
+    connect,
+    sessionId
+  } = useChat({
     accessToken: session?.access_token ?? '',
+    userId: session?.user.id ?? '',
     workerUrl: import.meta.env.VITE_CLOUDFLARE_WORKER_URL || 'http://localhost:8789'
   })
 
@@ -49,9 +65,11 @@ export function Chat() {
         </div>
       )}
 
-      {lostConnection && (
+      {quotaExceeded && <QuotaBanner quota={quotaExceeded} onRetry={connect} />}
+
+      {lostConnection && !quotaExceeded && (
         <div className="mb-2 p-3 bg-amber-50 border border-amber-300 rounded flex items-center justify-between">
-          <span className="text-amber-800">Connection lost. The sandbox may have stopped.</span>
+          <span className="text-amber-800">Connection lost. Reconnect to pick up where you left off.</span>
           <button
             onClick={connect}
             className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 text-sm"
@@ -61,10 +79,30 @@ export function Chat() {
         </div>
       )}
 
+      <SessionUndo key={sessionId} sessionId={sessionId} disabled={isResponding} />
+
       <div className="flex-1 overflow-y-auto bg-white rounded-lg border border-gray-200 p-4 mb-4">
-        <MessageList messages={messages} emptyMessage="Start a conversation..." />
+        <MessageList
+          messages={messages}
+          emptyMessage="Start a conversation..."
+          onPermissionResponse={respondToPermission}
+        />
       </div>
 
+      {isResponding && (
+        <div className="flex justify-center mb-2">
+          <button
+            onClick={interrupt}
+            className="flex items-center gap-1.5 px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="1" />
+            </svg>
+            Stop
+          </button>
+        </div>
+      )}
+
       <ChatInput
         onSend={sendMessage}
         disabled={connectionState !== 'connected'}
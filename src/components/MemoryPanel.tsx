@@ -0,0 +1,54 @@
+import { useState } from 'react'
+import { useMemories } from '../hooks/useMemories'
+
+export function MemoryPanel() {
+  const { memories, loading, deleteMemory } = useMemories()
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="mb-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1"
+      >
+        <svg className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        What the agent remembers{!loading && ` (${memories.length})`}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-gray-50 rounded-lg">
+          {memories.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {loading ? 'Loading...' : 'Nothing yet. Tell the agent about your preferences and it will remember them.'}
+            </p>
+          ) : (
+            <ul className="space-y-1.5">
+              {memories.map((memory) => (
+                <li
+                  key={memory.id}
+                  className="flex items-start justify-between gap-2 px-2 py-1.5 bg-white border border-gray-200 rounded text-sm text-gray-700"
+                >
+                  <span>
+                    {memory.content}
+                    <span className="ml-2 text-xs text-gray-400">{new Date(memory.created_at).toLocaleDateString()}</span>
+                  </span>
+                  <button
+                    onClick={() => deleteMemory(memory.id)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Forget this"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,36 +1,147 @@
-import { useEffect, useRef } from 'react'
-
-interface Message {
-  id: string
-  role?: 'user' | 'assistant' | 'tool_use' | 'slash_output'
-  type?: 'assistant_message' | 'tool_use' | 'slash_output' | 'error'
-  content: string
-  timestamp: Date
-  toolName?: string
-  toolInput?: Record<string, unknown>
-}
+import { useEffect, useRef, useState } from 'react'
+import type { ToolStatus } from '../lib/toolResults'
+import { formatToolName, type DisplayMessage } from '../lib/messages'
+
+type PermissionResponder = (requestId: string, approved: boolean) => void
 
 interface MessageListProps {
-  messages: Message[]
+  messages: DisplayMessage[]
   emptyMessage?: string
+  onPermissionResponse?: PermissionResponder // omit to show requests read-only
 }
 
-function formatToolName(name: string): string {
-  // Convert mcp__todos__ListTodos to "List Todos"
-  const parts = name.split('__')
-  const toolName = parts[parts.length - 1]
-  // Insert space before capital letters
-  return toolName.replace(/([A-Z])/g, ' $1').trim()
+const toolStatusStyles: Record<ToolStatus, { card: string; badge: string; label: string }> = {
+  pending: { card: 'bg-purple-50 border-purple-200 text-purple-900', badge: 'bg-purple-100 text-purple-700', label: 'Running' },
+  success: { card: 'bg-purple-50 border-purple-200 text-purple-900', badge: 'bg-green-100 text-green-700', label: 'Done' },
+  error: { card: 'bg-red-50 border-red-200 text-red-900', badge: 'bg-red-100 text-red-700', label: 'Failed' }
 }
 
-function MessageItem({ message }: { message: Message }) {
-  // Normalize role from either role or type field
-  const role = message.role || (message.type === 'assistant_message' ? 'assistant' : message.type)
+function ToolCallCard({ message }: { message: DisplayMessage }) {
+  const [expanded, setExpanded] = useState(false)
+  const status = message.toolStatus || 'pending'
+  const styles = toolStatusStyles[status]
+  const hasInput = !!message.toolInput && Object.keys(message.toolInput).length > 0
+
+  return (
+    <div className="flex justify-start">
+      <div className={`max-w-[80%] rounded-lg px-3 py-2 border text-sm ${styles.card}`}>
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 font-medium w-full text-left"
+        >
+          <svg
+            className={`w-3 h-3 text-purple-400 transition-transform ${expanded ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <svg className="w-4 h-4 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          {formatToolName(message.toolName || 'Unknown Tool')}
+          <span className={`ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-normal ${styles.badge}`}>
+            {status === 'pending' && (
+              <span className="w-2 h-2 rounded-full bg-purple-500 animate-pulse" />
+            )}
+            {styles.label}
+          </span>
+        </button>
+        {expanded && (
+          <div className="mt-2 space-y-2">
+            {hasInput && (
+              <div>
+                <p className="text-xs font-medium text-purple-500">Input</p>
+                <pre className="mt-0.5 text-xs text-purple-700 bg-purple-100 rounded p-1.5 overflow-x-auto">
+                  {JSON.stringify(message.toolInput, null, 2)}
+                </pre>
+              </div>
+            )}
+            {message.toolResult !== undefined && (
+              <div>
+                <p className={`text-xs font-medium ${status === 'error' ? 'text-red-500' : 'text-purple-500'}`}>
+                  {status === 'error' ? 'Error' : 'Result'}
+                </p>
+                <pre
+                  className={`mt-0.5 text-xs rounded p-1.5 overflow-x-auto whitespace-pre-wrap ${
+                    status === 'error' ? 'text-red-800 bg-red-100' : 'text-purple-700 bg-purple-100'
+                  }`}
+                >
+                  {message.toolResult || '(no output)'}
+                  {message.toolResultTruncated && '\n… (truncated)'}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+        <p className="text-xs mt-1 text-purple-400">
+          {message.timestamp.toLocaleTimeString()}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function PermissionCard({ message, onRespond }: { message: DisplayMessage; onRespond?: PermissionResponder }) {
+  const status = message.permissionStatus || 'pending'
+  const requestId = message.requestId
+  const hasInput = !!message.toolInput && Object.keys(message.toolInput).length > 0
+
+  return (
+    <div className="flex justify-start">
+      <div className="max-w-[80%] rounded-lg px-3 py-2 bg-amber-50 border border-amber-300 text-amber-900 text-sm">
+        <div className="flex items-center gap-2 font-medium text-amber-800">
+          <svg className="w-4 h-4 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          Allow {formatToolName(message.toolName || 'Unknown Tool')}?
+        </div>
+        {hasInput && (
+          <pre className="mt-1 text-xs text-amber-800 bg-amber-100 rounded p-1.5 overflow-x-auto">
+            {JSON.stringify(message.toolInput, null, 2)}
+          </pre>
+        )}
+        {status === 'pending' && onRespond && requestId ? (
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={() => onRespond(requestId, true)}
+              className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 text-sm"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => onRespond(requestId, false)}
+              className="px-3 py-1 bg-white text-amber-800 border border-amber-300 rounded hover:bg-amber-100 text-sm"
+            >
+              Deny
+            </button>
+          </div>
+        ) : (
+          <p className="mt-1 text-xs text-amber-700">
+            {status === 'pending' ? 'Waiting for approval' : status === 'approved' ? 'Approved' : 'Denied'}
+            {message.permissionReason && status !== 'pending' && ` · ${message.permissionReason}`}
+          </p>
+        )}
+        <p className="text-xs mt-1 text-amber-400">
+          {message.timestamp.toLocaleTimeString()}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function MessageItem({ message, onPermissionResponse }: { message: DisplayMessage; onPermissionResponse?: PermissionResponder }) {
+  const role = message.role
 
   const isUser = role === 'user'
   const isToolUse = role === 'tool_use'
   const isSlashOutput = role === 'slash_output'
-  const isError = message.type === 'error'
+  const isPermissionRequest = role === 'permission_request'
+  const isContextCompacted = role === 'context_compacted'
+  const isError = role === 'error'
 
   if (isError) {
     return (
@@ -51,30 +162,25 @@ function MessageItem({ message }: { message: Message }) {
     )
   }
 
-  if (isToolUse) {
+  // Everything above the divider is only in the agent's context as a summary
+  if (isContextCompacted) {
     return (
-      <div className="flex justify-start">
-        <div className="max-w-[80%] rounded-lg px-3 py-2 bg-purple-50 border border-purple-200 text-purple-900 text-sm">
-          <div className="flex items-center gap-2 font-medium">
-            <svg className="w-4 h-4 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-            </svg>
-            {formatToolName(message.toolName || 'Unknown Tool')}
-          </div>
-          {message.toolInput && Object.keys(message.toolInput).length > 0 && (
-            <pre className="mt-1 text-xs text-purple-700 bg-purple-100 rounded p-1.5 overflow-x-auto">
-              {JSON.stringify(message.toolInput, null, 2)}
-            </pre>
-          )}
-          <p className="text-xs mt-1 text-purple-400">
-            {message.timestamp.toLocaleTimeString()}
-          </p>
-        </div>
+      <div className="flex items-center gap-3 text-xs text-gray-400" title={message.timestamp.toLocaleTimeString()}>
+        <div className="flex-1 border-t border-dashed border-gray-300" />
+        <span>{message.content}</span>
+        <div className="flex-1 border-t border-dashed border-gray-300" />
       </div>
     )
   }
 
+  if (isToolUse) {
+    return <ToolCallCard message={message} />
+  }
+
+  if (isPermissionRequest) {
+    return <PermissionCard message={message} onRespond={onPermissionResponse} />
+  }
+
   if (isSlashOutput) {
     return (
       <div className="flex justify-start">
@@ -105,16 +211,21 @@ function MessageItem({ message }: { message: Message }) {
             : 'bg-gray-100 text-gray-900'
         }`}
       >
-        <p className="whitespace-pre-wrap">{message.content}</p>
+        <p className="whitespace-pre-wrap">
+          {message.content}
+          {message.streaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+          )}
+        </p>
         <p className={`text-xs mt-1 ${isUser ? 'text-blue-200' : 'text-gray-400'}`}>
-          {message.timestamp.toLocaleTimeString()}
+          {message.streaming ? 'Typing...' : message.timestamp.toLocaleTimeString()}
         </p>
       </div>
     </div>
   )
 }
 
-export function MessageList({ messages, emptyMessage = 'No messages yet...' }: MessageListProps) {
+export function MessageList({ messages, emptyMessage = 'No messages yet...', onPermissionResponse }: MessageListProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -132,7 +243,7 @@ export function MessageList({ messages, emptyMessage = 'No messages yet...' }: M
   return (
     <div className="space-y-4">
       {messages.map((message) => (
-        <MessageItem key={message.id} message={message} />
+        <MessageItem key={message.id} message={message} onPermissionResponse={onPermissionResponse} />
       ))}
       <div ref={messagesEndRef} />
     </div>
@@ -0,0 +1,90 @@
+import { useCategories } from '../hooks/useCategories'
+import { useApplyChanges } from '../hooks/useApplyChanges'
+import type { ProposedChange } from '../../shared/protocol'
+
+const operationStyles: Record<ProposedChange['operation'], { marker: string; line: string }> = {
+  insert: { marker: '+', line: 'bg-green-50 text-green-800' },
+  update: { marker: '~', line: 'bg-amber-50 text-amber-800' },
+  delete: { marker: '-', line: 'bg-red-50 text-red-800' }
+}
+
+const fieldLabels: Record<string, string> = {
+  title: 'title',
+  completed: 'status',
+  category_id: 'category',
+  name: 'name'
+}
+
+interface ProposedChangesProps {
+  changes: ProposedChange[]
+  sessionId: string | null
+}
+
+export function ProposedChanges({ changes, sessionId }: ProposedChangesProps) {
+  const { categories } = useCategories()
+  const { apply, applyPending, applied, applyError } = useApplyChanges(sessionId)
+
+  // Category names as they stand, plus the ones the plan adds or renames
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]))
+  for (const change of changes) {
+    if (change.table === 'categories' && typeof change.after?.name === 'string') {
+      categoryNames.set(change.id, change.after.name)
+    }
+  }
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (field === 'completed') return value ? 'done' : 'not done'
+    if (field === 'category_id') return value ? `"${categoryNames.get(String(value)) ?? 'unknown category'}"` : 'none'
+    return JSON.stringify(value)
+  }
+
+  const describe = (change: ProposedChange): string => {
+    const noun = change.table === 'todos' ? 'todo' : 'category'
+    const row = change.after ?? change.before ?? {}
+    const label = JSON.stringify(change.before?.title ?? change.before?.name ?? row.title ?? row.name)
+
+    if (change.operation === 'insert') {
+      const category = change.after?.category_id
+      return `Add ${noun} ${label}${category ? ` in ${formatValue('category_id', category)}` : ''}`
+    }
+    if (change.operation === 'delete') {
+      return `Delete ${noun} ${label}`
+    }
+    const fields = Object.entries(change.after ?? {}).map(([field, value]) =>
+      `${fieldLabels[field] ?? field} ${formatValue(field, change.before?.[field])} → ${formatValue(field, value)}`
+    )
+    return `Change ${noun} ${label}: ${fields.join(', ')}`
+  }
+
+  return (
+    <div className="mt-4 p-3 border border-gray-200 rounded-lg bg-white">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <p className="font-medium text-gray-700">
+          {changes.length === 0
+            ? 'Dry run: no changes proposed'
+            : `Dry run: ${changes.length} proposed change${changes.length === 1 ? '' : 's'}`}
+        </p>
+        {changes.length > 0 && (
+          <button
+            onClick={() => apply(changes)}
+            disabled={applyPending || applied}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm"
+          >
+            {applied ? 'Applied' : applyPending ? 'Applying...' : 'Apply'}
+          </button>
+        )}
+      </div>
+      {applyError && <p className="mb-2 text-sm text-red-600">{applyError}</p>}
+      <ul className="space-y-0.5 font-mono text-xs max-h-48 overflow-y-auto">
+        {changes.map((change, index) => {
+          const styles = operationStyles[change.operation]
+          return (
+            <li key={index} className={`px-2 py-0.5 rounded ${styles.line}`}>
+              {styles.marker} {describe(change)}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+import type { QuotaCode, QuotaExceeded } from '../lib/quota'
+
+const bannerText: Record<QuotaCode, { title: string; hint: string }> = {
+  too_many_sessions: { title: 'Too many sessions', hint: 'Close or finish another chat or prompt run to free a slot.' },
+  rate_limited: { title: 'Too many starts', hint: 'Please wait a moment before starting the agent again.' },
+  budget_exceeded: { title: 'Monthly budget used up', hint: 'See the Usage tab for what has been spent.' }
+}
+
+interface QuotaBannerProps {
+  quota: QuotaExceeded
+  onRetry?: () => void // omit when the page has its own way to start again
+}
+
+export function QuotaBanner({ quota, onRetry }: QuotaBannerProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const secondsLeft = Math.max(0, Math.ceil((quota.retryAt - now) / 1000))
+
+  // Tick until the wait is over
+  useEffect(() => {
+    if (secondsLeft === 0) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [secondsLeft])
+
+  const { title, hint } = bannerText[quota.code]
+
+  return (
+    <div className="mb-2 p-3 bg-amber-50 border border-amber-300 rounded flex items-center justify-between gap-4">
+      <div className="text-sm text-amber-800">
+        <p className="font-medium">{title}</p>
+        <p>
+          {quota.message}. {hint}
+          {/* The budget resets next month, too far off for a countdown */}
+          {secondsLeft > 0 && quota.code !== 'budget_exceeded' && ` Try again in ${secondsLeft}s.`}
+        </p>
+      </div>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          disabled={secondsLeft > 0}
+          className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm"
+        >
+          Try again
+        </button>
+      )}
+    </div>
+  )
+}
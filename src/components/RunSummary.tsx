@@ -0,0 +1,66 @@
+import type { CompleteMessage, CompletionStatus } from '../../shared/protocol'
+import { formatToolName } from '../lib/messages'
+
+const statusStyles: Record<CompletionStatus, { panel: string; title: string; label: string }> = {
+  success: { panel: 'bg-green-50 border-green-200', title: 'text-green-700', label: 'Prompt completed successfully' },
+  error: { panel: 'bg-red-50 border-red-200', title: 'text-red-700', label: 'Prompt failed' },
+  max_turns: { panel: 'bg-amber-50 border-amber-200', title: 'text-amber-700', label: 'Prompt hit the turn limit' },
+  interrupted: { panel: 'bg-amber-50 border-amber-200', title: 'text-amber-700', label: 'Prompt stopped' }
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  const seconds = ms / 1000
+  if (seconds < 60) return `${seconds.toFixed(1)}s`
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-sm font-medium text-gray-800">{value}</p>
+    </div>
+  )
+}
+
+export function RunSummary({ report }: { report: CompleteMessage }) {
+  const styles = statusStyles[report.status] ?? statusStyles.error
+  const { usage } = report
+  const toolCalls = Object.entries(report.toolCalls).sort(([, a], [, b]) => b - a)
+
+  return (
+    <div className={`mt-4 p-3 border rounded-lg ${styles.panel}`}>
+      <p className={`font-medium ${styles.title}`}>{styles.label}</p>
+      {report.error && (
+        <p className="mt-1 text-sm text-red-700 whitespace-pre-wrap">{report.error}</p>
+      )}
+      <div className="mt-2 grid grid-cols-4 gap-3">
+        <Stat label="Duration" value={formatDuration(report.durationMs)} />
+        <Stat label="Turns" value={String(report.numTurns)} />
+        <Stat
+          label="Tokens"
+          value={`${usage.inputTokens + usage.cacheReadInputTokens + usage.cacheCreationInputTokens} in / ${usage.outputTokens} out`}
+        />
+        <Stat label="Cost" value={`$${report.costUsd.toFixed(4)}`} />
+      </div>
+      {report.structuredOutput && (
+        <div className="mt-2">
+          <p className="text-xs text-gray-500">Structured output</p>
+          <pre className="mt-0.5 text-xs text-gray-800 bg-white border border-gray-200 rounded p-1.5 overflow-x-auto">
+            {JSON.stringify(report.structuredOutput, null, 2)}
+          </pre>
+        </div>
+      )}
+      {toolCalls.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {toolCalls.map(([name, count]) => (
+            <span key={name} className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 text-xs">
+              {formatToolName(name)} × {count}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
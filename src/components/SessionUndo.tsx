@@ -0,0 +1,68 @@
+import { useSessionChanges } from '../hooks/useSessionChanges'
+import { formatToolName } from '../lib/messages'
+import type { AgentAuditEntry } from '../types/database'
+
+// The title or name of the row an entry touched, from whichever snapshot it has
+function rowLabel(entry: AgentAuditEntry | undefined): string | null {
+  const row = entry?.after ?? entry?.before
+  const label = row?.title ?? row?.name
+  return typeof label === 'string' ? label : null
+}
+
+interface SessionUndoProps {
+  sessionId: string | null
+  disabled?: boolean // e.g. while the agent is still making changes
+}
+
+export function SessionUndo({ sessionId, disabled }: SessionUndoProps) {
+  const { changes, undo, undoPending, undoResult, undoError } = useSessionChanges(sessionId)
+
+  if (changes.length === 0 && !undoResult && !undoError) return null
+
+  const handleUndo = () => {
+    if (window.confirm(`Undo ${changes.length} change${changes.length === 1 ? '' : 's'} the agent made in this session?`)) {
+      undo()
+    }
+  }
+
+  return (
+    <div className="mb-2 p-3 bg-gray-50 border border-gray-200 rounded text-sm text-gray-700">
+      <div className="flex items-center justify-between gap-4">
+        <span>
+          {changes.length > 0
+            ? `The agent made ${changes.length} change${changes.length === 1 ? '' : 's'} to your todos in this session.`
+            : 'All of this session\'s changes have been undone.'}
+        </span>
+        {changes.length > 0 && (
+          <button
+            onClick={handleUndo}
+            disabled={disabled || undoPending}
+            className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm whitespace-nowrap"
+          >
+            {undoPending ? 'Undoing...' : 'Undo this session\'s changes'}
+          </button>
+        )}
+      </div>
+      {undoError && <p className="mt-2 text-red-600">{undoError}</p>}
+      {undoResult && undoResult.conflicts.length > 0 && (
+        <div className="mt-2">
+          <p>
+            Undid {undoResult.undone} change{undoResult.undone === 1 ? '' : 's'}.
+            {' '}{undoResult.conflicts.length} couldn't be undone because the item was changed afterwards:
+          </p>
+          <ul className="mt-1 list-disc list-inside text-amber-700">
+            {undoResult.conflicts.map(conflict => {
+              const label = rowLabel(changes.find(entry => entry.id === conflict.id))
+              return (
+                <li key={conflict.id}>
+                  {conflict.tool ? formatToolName(conflict.tool) : conflict.operation} on {conflict.table_name === 'todos' ? 'todo' : 'category'}
+                  {label ? ` "${label}"` : ''}: {conflict.reason}
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
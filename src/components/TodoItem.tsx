@@ -5,11 +5,28 @@ interface TodoItemProps {
   category: Category | null
   onToggle: (id: string, completed: boolean) => void
   onDelete: (id: string) => void
+  selected?: boolean // only set while the list is in selection mode
+  onSelect?: (id: string) => void
 }
 
-export function TodoItem({ todo, category, onToggle, onDelete }: TodoItemProps) {
+export function TodoItem({ todo, category, onToggle, onDelete, selected, onSelect }: TodoItemProps) {
+  const selecting = selected !== undefined
+
   return (
-    <div className="flex items-center gap-3 p-3 bg-white rounded-lg shadow-sm border border-gray-100">
+    <div
+      className={`flex items-center gap-3 p-3 bg-white rounded-lg shadow-sm border ${
+        selected ? 'border-blue-400 ring-1 ring-blue-400' : 'border-gray-100'
+      }`}
+    >
+      {selecting && (
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={() => onSelect?.(todo.id)}
+          aria-label={`Select ${todo.title}`}
+          className="w-4 h-4 rounded-full border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+      )}
       <input
         type="checkbox"
         checked={todo.completed}
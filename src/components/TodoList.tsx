@@ -1,3 +1,4 @@
+import { useState } from 'react'
 import { TodoItem } from './TodoItem'
 import type { Todo, Category } from '../types/database'
 
@@ -7,9 +8,25 @@ interface TodoListProps {
   filterCategory: string | null
   onToggle: (id: string, completed: boolean) => void
   onDelete: (id: string) => void
+  onSetCompletedMany: (ids: string[], completed: boolean) => Promise<void>
+  onDeleteMany: (ids: string[]) => Promise<void>
+  bulkPending?: boolean
 }
 
-export function TodoList({ todos, categories, filterCategory, onToggle, onDelete }: TodoListProps) {
+export function TodoList({
+  todos,
+  categories,
+  filterCategory,
+  onToggle,
+  onDelete,
+  onSetCompletedMany,
+  onDeleteMany,
+  bulkPending = false
+}: TodoListProps) {
+  const [selecting, setSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [bulkError, setBulkError] = useState<string | null>(null)
+
   const filteredTodos = filterCategory
     ? todos.filter((t) => t.category_id === filterCategory)
     : todos
@@ -17,6 +34,38 @@ export function TodoList({ todos, categories, filterCategory, onToggle, onDelete
   const getCategoryById = (id: string | null) =>
     categories.find((c) => c.id === id) || null
 
+  // Only act on selected todos that are still visible
+  const selected = filteredTodos.filter((t) => selectedIds.has(t.id)).map((t) => t.id)
+  const allSelected = filteredTodos.length > 0 && selected.length === filteredTodos.length
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const exitSelection = () => {
+    setSelecting(false)
+    setSelectedIds(new Set())
+    setBulkError(null)
+  }
+
+  const runBulk = async (action: () => Promise<void>) => {
+    setBulkError(null)
+    try {
+      await action()
+      setSelectedIds(new Set())
+    } catch (e) {
+      setBulkError(e instanceof Error ? e.message : 'Bulk action failed')
+    }
+  }
+
   if (filteredTodos.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500">
@@ -26,16 +75,73 @@ export function TodoList({ todos, categories, filterCategory, onToggle, onDelete
   }
 
   return (
-    <div className="space-y-2">
-      {filteredTodos.map((todo) => (
-        <TodoItem
-          key={todo.id}
-          todo={todo}
-          category={getCategoryById(todo.category_id)}
-          onToggle={onToggle}
-          onDelete={onDelete}
-        />
-      ))}
+    <div>
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        {selecting ? (
+          <>
+            <button
+              onClick={() => setSelectedIds(allSelected ? new Set() : new Set(filteredTodos.map((t) => t.id)))}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              {allSelected ? 'Select none' : 'Select all'}
+            </button>
+            <span className="text-gray-500">{selected.length} selected</span>
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => runBulk(() => onSetCompletedMany(selected, true))}
+                disabled={selected.length === 0 || bulkPending}
+                className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                Complete
+              </button>
+              <button
+                onClick={() => runBulk(() => onSetCompletedMany(selected, false))}
+                disabled={selected.length === 0 || bulkPending}
+                className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                Mark incomplete
+              </button>
+              <button
+                onClick={() => runBulk(() => onDeleteMany(selected))}
+                disabled={selected.length === 0 || bulkPending}
+                className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button onClick={exitSelection} className="text-gray-500 hover:text-gray-700">
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <button
+            onClick={() => setSelecting(true)}
+            className="ml-auto text-gray-500 hover:text-gray-700"
+          >
+            Select
+          </button>
+        )}
+      </div>
+
+      {bulkError && (
+        <div className="mb-2 p-2 bg-red-50 border border-red-200 rounded text-red-600 text-sm">
+          {bulkError}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {filteredTodos.map((todo) => (
+          <TodoItem
+            key={todo.id}
+            todo={todo}
+            category={getCategoryById(todo.category_id)}
+            onToggle={onToggle}
+            onDelete={onDelete}
+            selected={selecting ? selectedIds.has(todo.id) : undefined}
+            onSelect={toggleSelected}
+          />
+        ))}
+      </div>
     </div>
   )
 }
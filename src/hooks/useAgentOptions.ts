@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+
+// What the worker's environment lets a request override (see worker/src/overrides.ts)
+export interface AgentOptions {
+  models: string[] // the first is the default
+  maxTurns: number
+  maxSystemPromptAppend: number
+  tools: string[]
+}
+
+export function useAgentOptions(accessToken: string, workerUrl: string) {
+  const { data: options = null, isLoading, error } = useQuery({
+    queryKey: ['agent-options', workerUrl],
+    queryFn: async (): Promise<AgentOptions> => {
+      const response = await fetch(`${workerUrl}/api/agent/options`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to load agent options')
+      }
+      return response.json()
+    },
+    enabled: !!accessToken,
+    staleTime: Infinity
+  })
+
+  return { options, isLoading, error: error?.message ?? null }
+}
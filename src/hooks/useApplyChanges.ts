@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { assertApplied } from '../lib/bulk'
+import type { ProposedChange } from '../../shared/protocol'
+import type { BulkResult } from '../types/database'
+
+// Apply the change set a dry run proposed, all or nothing
+export function useApplyChanges(sessionId: string | null) {
+  const queryClient = useQueryClient()
+
+  const applyMutation = useMutation({
+    mutationFn: async (changes: ProposedChange[]) => {
+      let request = supabase.rpc('apply_change_set', { changes })
+      // Tag the writes with the dry run's session so the audit log can undo them
+      if (sessionId) {
+        request = request
+          .setHeader('x-agent-session-id', sessionId)
+          .setHeader('x-agent-tool', 'ApplyChangeSet')
+      }
+      const { data, error } = await request
+      if (error) throw error
+      assertApplied(data as BulkResult)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['todos'] })
+      queryClient.invalidateQueries({ queryKey: ['categories'] })
+      queryClient.invalidateQueries({ queryKey: ['agent-audit', sessionId] })
+    }
+  })
+
+  return {
+    apply: applyMutation.mutate,
+    applyPending: applyMutation.isPending,
+    applied: applyMutation.isSuccess,
+    applyError: applyMutation.error?.message ?? null
+  }
+}
@@ -1,20 +1,28 @@
 import { useEffect, useState, useRef, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
 import type { RealtimeChannel } from '@supabase/supabase-js'
+import { newSequenceState, receiveMessage, skipGap, type SequenceState, type SequenceUpdate } from '../lib/sequence'
+import {
+  PROTOCOL_VERSION,
+  parseAgentMessage,
+  type AgentMessage,
+  type ClientMessageType,
+  type ClientPayload
+} from '../../shared/protocol'
 
-// Message types from agent
-export interface ChannelMessage {
-  type: 'ready' | 'assistant_message' | 'tool_use' | 'slash_output' | 'error' | 'complete'
-  content?: string
-  toolName?: string
-  toolInput?: Record<string, unknown>
-  timestamp?: number
-  message?: string // for error type
-  result?: string // for complete type
-}
+// Messages from the agent; the protocol module is shared with the sandbox
+export type ChannelMessage = AgentMessage
 
 export type ChannelState = 'disconnected' | 'connecting' | 'connected'
 
+// How long to wait for a resync to fill a gap before skipping past it
+const RESYNC_GAP_TIMEOUT_MS = 3000
+
+// Agent sessions use private channels; Realtime RLS only admits the user named in the topic
+export function sessionChannelName(userId: string, sessionId: string): string {
+  return `session:${userId}:${sessionId}`
+}
+
 interface UseChannelOptions {
   onMessage?: (message: ChannelMessage) => void
   onReady?: () => void
@@ -36,6 +44,8 @@ export function useChannel({
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const mountedRef = useRef(true)
   const optionsRef = useRef({ onMessage, onReady, onComplete, onError })
+  const sequenceRef = useRef<SequenceState>(newSequenceState(null))
+  const gapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Track mounted state
   useEffect(() => {
@@ -58,6 +68,13 @@ export function useChannel({
     }
   }, [])
 
+  const clearGapTimer = useCallback(() => {
+    if (gapTimerRef.current) {
+      clearTimeout(gapTimerRef.current)
+      gapTimerRef.current = null
+    }
+  }, [])
+
   // Connect to a channel - channelName is passed at connection time
   const connect = useCallback((channelName: string): Promise<void> => {
     return new Promise((resolve, reject) => {
@@ -79,29 +96,88 @@ export function useChannel({
       clearReadyTimeout()
 
       const channel = supabase.channel(channelName, {
-        config: { broadcast: { ack: true, self: false } }
+        config: { private: true, broadcast: { ack: true, self: false } }
       })
 
-      channel.on('broadcast', { event: 'agent_message' }, (payload) => {
-        const msg = payload.payload as ChannelMessage
-        console.log('Received agent_message:', msg.type)
+      // Reconnecting to the same channel keeps our place in the agent's stream
+      if (sequenceRef.current.channelName !== channelName) {
+        sequenceRef.current = newSequenceState(channelName)
+      }
+
+      // Ask the agent to replay everything after the last message we delivered
+      const requestResync = () => {
+        const { epoch, lastSeq } = sequenceRef.current
+        console.log('Requesting resync after', lastSeq)
+        const payload: ClientPayload<'resync'> = { afterSeq: lastSeq, epoch }
+        channel.send({ type: 'broadcast', event: 'resync', payload })
+      }
+
+      // Surface a problem with the agent's messages instead of rendering them
+      const reportProtocolError = (errorMsg: string) => {
+        console.error('Protocol error:', errorMsg)
+        setError(errorMsg)
+        optionsRef.current.onError?.(errorMsg)
+      }
+
+      // Realtime reports SUBSCRIBED again each time it rejoins on its own; only the first join waits for ready
+      let joined = false
+      let readySeen = false
+
+      const deliver = (msg: ChannelMessage) => {
+        console.log('Received agent_message:', msg.type, msg.seq ?? '')
 
         if (msg.type === 'ready') {
+          readySeen = true
           clearReadyTimeout()
+          if (msg.protocolVersion !== PROTOCOL_VERSION) {
+            setState('disconnected')
+            reportProtocolError(
+              `Agent speaks protocol version ${msg.protocolVersion}, this page expects ${PROTOCOL_VERSION} - try reloading`
+            )
+            return
+          }
+          sequenceRef.current.ready = true
           setState('connected')
           optionsRef.current.onReady?.()
         } else if (msg.type === 'complete') {
           optionsRef.current.onComplete?.()
         } else if (msg.type === 'error') {
-          const errorMsg = msg.message || msg.content || 'Unknown error'
-          setError(errorMsg)
-          optionsRef.current.onError?.(errorMsg)
+          setError(msg.message)
+          optionsRef.current.onError?.(msg.message)
         }
 
         optionsRef.current.onMessage?.(msg)
+      }
+
+      // Hand over what the sequence let through, and chase any gap left behind
+      const handle = (update: SequenceUpdate) => {
+        if (update.restarted) clearGapTimer()
+        update.deliver.forEach(deliver)
+
+        if (!update.gap) {
+          clearGapTimer()
+          return
+        }
+        if (!gapTimerRef.current) {
+          requestResync()
+          gapTimerRef.current = setTimeout(() => {
+            gapTimerRef.current = null
+            // The missing messages have left the agent's replay buffer; skip past them
+            handle(skipGap(sequenceRef.current))
+          }, RESYNC_GAP_TIMEOUT_MS)
+        }
+      }
+
+      channel.on('broadcast', { event: 'agent_message' }, (payload) => {
+        const parsed = parseAgentMessage(payload.payload)
+        if (!parsed.ok) {
+          reportProtocolError(`Received an invalid message from the agent (${parsed.error})`)
+          return
+        }
+        handle(receiveMessage(sequenceRef.current, parsed.message))
       })
 
-      channel.subscribe((status, err) => {
+      const subscribe = () => channel.subscribe((status, err) => {
         console.log('Channel subscription status:', status, err || '', 'mounted:', mountedRef.current)
 
         // Ignore status changes if component unmounted (React strict mode)
@@ -111,8 +187,19 @@ export function useChannel({
         }
 
         if (status === 'SUBSCRIBED') {
+          // Catch up on anything sent before we joined or while we were away
+          requestResync()
+          if (joined) {
+            console.log('Channel rejoined')
+            return
+          }
+          joined = true
+          resolve()
+          if (readySeen) return
+
           console.log('Channel subscribed, waiting for agent ready...')
           // Start timeout for 'ready' message
+          clearReadyTimeout()
           timeoutRef.current = setTimeout(() => {
             if (!mountedRef.current) return
             console.log('Timeout waiting for agent ready')
@@ -120,7 +207,6 @@ export function useChannel({
             setState('disconnected')
             optionsRef.current.onError?.('Connection timeout - agent did not respond')
           }, readyTimeout)
-          resolve()
         } else if (status === 'CHANNEL_ERROR') {
           const errorMsg = err?.message || 'Failed to connect to channel'
           console.error('Channel error:', errorMsg)
@@ -144,28 +230,60 @@ export function useChannel({
       })
 
       channelRef.current = channel
+
+      // Make sure Realtime authorizes the private channel with the current session token
+      supabase.realtime.setAuth()
+        .then(() => {
+          // Skip if we were disconnected while waiting
+          if (channelRef.current === channel) subscribe()
+        })
+        .catch((err: Error) => {
+          console.error('Failed to authorize channel:', err)
+          setError(err.message)
+          setState('disconnected')
+          reject(err)
+        })
     })
-  }, [readyTimeout, clearReadyTimeout])
+  }, [readyTimeout, clearReadyTimeout, clearGapTimer])
 
-  const sendMessage = useCallback(async (content: string) => {
+  // Send a client message (user_message, interrupt, ...) to the agent
+  const sendEvent = useCallback(async <T extends ClientMessageType>(
+    event: T,
+    payload: ClientPayload<T> = {} as ClientPayload<T>
+  ) => {
     if (!channelRef.current || state !== 'connected') {
-      console.log('Cannot send message: not connected')
+      console.log('Cannot send', event, ': not connected')
       setError('Not connected')
       return false
     }
 
-    console.log('Sending user_message to channel')
+    console.log('Sending', event, 'to channel')
     const result = await channelRef.current.send({
       type: 'broadcast',
-      event: 'user_message',
-      payload: { content }
+      event,
+      payload
     })
 
     return result === 'ok'
   }, [state])
 
+  // The agent that said ready on this channel before is still running (the worker didn't restart it):
+  // it won't say ready again, so stop waiting. False if no ready was delivered for it.
+  const resumeAgent = useCallback(() => {
+    if (!channelRef.current || !sequenceRef.current.ready) return false
+    clearReadyTimeout()
+    setState('connected')
+    return true
+  }, [clearReadyTimeout])
+
+  const sendMessage = useCallback(
+    (content: string) => sendEvent('user_message', { content }),
+    [sendEvent]
+  )
+
   const disconnect = useCallback(() => {
     clearReadyTimeout()
+    clearGapTimer()
     if (channelRef.current) {
       console.log('Disconnecting from channel')
       const channel = channelRef.current
@@ -173,25 +291,28 @@ export function useChannel({
       channel.unsubscribe()
     }
     setState('disconnected')
-  }, [clearReadyTimeout])
+  }, [clearReadyTimeout, clearGapTimer])
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       clearReadyTimeout()
+      clearGapTimer()
       if (channelRef.current) {
         const channel = channelRef.current
         channelRef.current = null  // Clear ref first
         channel.unsubscribe()
       }
     }
-  }, [clearReadyTimeout])
+  }, [clearReadyTimeout, clearGapTimer])
 
   return {
     state,
     error,
     connect,
     sendMessage,
+    sendEvent,
+    resumeAgent,
     disconnect
   }
 }
@@ -1,62 +1,145 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
-import { useChannel, type ChannelMessage, type ChannelState } from './useChannel'
-
-export interface ChatMessage {
-  id: string
-  role: 'user' | 'assistant' | 'tool_use' | 'slash_output'
-  content: string
-  timestamp: Date
-  toolName?: string
-  toolInput?: Record<string, unknown>
-}
+import { useChannel, sessionChannelName, type ChannelMessage, type ChannelState } from './useChannel'
+import { fetchTranscript, sessionStorageKey, type TranscriptEntry } from '../lib/transcript'
+import { applyDelta, endStreaming, upsertMessage } from '../lib/streaming'
+import { applyToolResult } from '../lib/toolResults'
+import { applyPermissionResult } from '../lib/permissions'
+import { toDisplayMessage, type DisplayMessage } from '../lib/messages'
+import { readQuotaExceeded, type QuotaExceeded } from '../lib/quota'
+import { clientContext } from '../lib/clientContext'
+import { parseAgentMessage, parseClientMessage } from '../../shared/protocol'
+
+export type ChatMessage = DisplayMessage
 
 export type ConnectionState = ChannelState
 
 interface UseChatOptions {
   accessToken: string
+  userId: string
   workerUrl?: string
 }
 
+// Rebuild the chat history from a stored transcript
+function fromTranscript(entries: TranscriptEntry[]): ChatMessage[] {
+  let restored: ChatMessage[] = []
+  for (const entry of entries) {
+    if (entry.event === 'user_message') {
+      const parsed = parseClientMessage(entry.event, entry.payload)
+      if (parsed.ok && parsed.message.type === 'user_message') {
+        restored.push({
+          id: crypto.randomUUID(),
+          role: 'user',
+          content: parsed.message.content,
+          timestamp: new Date(entry.timestamp)
+        })
+      } else if (!parsed.ok) {
+        console.error('Skipping invalid transcript entry:', parsed.error)
+      }
+      continue
+    }
+
+    const parsed = parseAgentMessage(entry.payload)
+    if (!parsed.ok) {
+      console.error('Skipping invalid transcript entry:', parsed.error)
+      continue
+    }
+    const msg = parsed.message
+    if (msg.type === 'tool_result') {
+      restored = applyToolResult(restored, msg)
+    } else if (msg.type === 'permission_result') {
+      restored = applyPermissionResult(restored, msg.requestId, msg.approved, msg.reason)
+    } else if (msg.type !== 'error') {
+      // Errors were shown as a banner at the time, not in the history
+      const message = toDisplayMessage(msg)
+      if (message) restored.push(message)
+    }
+  }
+  return restored
+}
+
 export function useChat({
   accessToken,
+  userId,
   workerUrl = 'http://localhost:8789'
 }: UseChatOptions) {
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [chatError, setChatError] = useState<string | null>(null)
   const [lostConnection, setLostConnection] = useState(false)
-  const [sessionId] = useState(() => crypto.randomUUID())
+  const [isResponding, setIsResponding] = useState(false)
+  const [quotaExceeded, setQuotaExceeded] = useState<QuotaExceeded | null>(null)
+  const [sessionId, setSessionId] = useState(
+    () => localStorage.getItem(sessionStorageKey('chat', userId)) ?? crypto.randomUUID()
+  )
 
   const keepaliveRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const wasConnectedRef = useRef(false)
   const isConnectingRef = useRef(false)
 
+  // Remember the session so a reload can pick it back up
+  useEffect(() => {
+    if (userId) {
+      localStorage.setItem(sessionStorageKey('chat', userId), sessionId)
+    }
+  }, [userId, sessionId])
+
+  // Rehydrate history from the stored transcript
+  useEffect(() => {
+    if (!accessToken) return
+    let cancelled = false
+
+    fetchTranscript(workerUrl, accessToken, sessionId)
+      .then(entries => {
+        if (cancelled || entries.length === 0) return
+        console.log('Restored transcript:', entries.length, 'entries')
+        setMessages(prev => [...fromTranscript(entries), ...prev])
+      })
+      .catch(e => console.log('Failed to restore transcript:', e))
+
+    return () => {
+      cancelled = true
+    }
+  }, [accessToken, workerUrl, sessionId])
+
   // Handle incoming messages from the channel
   const handleMessage = useCallback((msg: ChannelMessage) => {
-    if (msg.type === 'assistant_message') {
-      setMessages(prev => [...prev, {
-        id: crypto.randomUUID(),
+    if (msg.type === 'error') {
+      setChatError(msg.message)
+      setIsResponding(false)
+      setMessages(endStreaming)
+      return
+    }
+
+    if (msg.type === 'turn_complete') {
+      setIsResponding(false)
+      setMessages(endStreaming)
+      return
+    }
+
+    if (msg.type === 'tool_result') {
+      setMessages(prev => applyToolResult(prev, msg))
+      return
+    }
+
+    if (msg.type === 'permission_result') {
+      setMessages(prev => applyPermissionResult(prev, msg.requestId, msg.approved, msg.reason))
+      return
+    }
+
+    if (msg.type === 'assistant_delta') {
+      const { messageId, text } = msg
+      if (!text) return
+      setMessages(prev => applyDelta(prev, messageId, text, () => ({
+        id: messageId,
         role: 'assistant',
-        content: msg.content || '',
-        timestamp: new Date()
-      }])
-    } else if (msg.type === 'tool_use') {
-      setMessages(prev => [...prev, {
-        id: crypto.randomUUID(),
-        role: 'tool_use',
         content: '',
-        timestamp: new Date(),
-        toolName: msg.toolName,
-        toolInput: msg.toolInput
-      }])
-    } else if (msg.type === 'slash_output') {
-      setMessages(prev => [...prev, {
-        id: crypto.randomUUID(),
-        role: 'slash_output',
-        content: msg.content || '',
-        timestamp: new Date()
-      }])
-    } else if (msg.type === 'error') {
-      setChatError(msg.message || msg.content || 'Unknown error')
+        timestamp: new Date(msg.timestamp)
+      })))
+      return
+    }
+
+    const message = toDisplayMessage(msg)
+    if (message) {
+      setMessages(prev => upsertMessage(prev, message))
     }
   }, [])
 
@@ -76,6 +159,8 @@ export function useChat({
     error: channelError,
     connect: connectChannel,
     sendMessage: sendToChannel,
+    sendEvent,
+    resumeAgent,
     disconnect
   } = useChannel({
     onMessage: handleMessage,
@@ -84,34 +169,46 @@ export function useChat({
     readyTimeout: 30000
   })
 
-  // Start keepalive interval
-  const startKeepalive = useCallback(() => {
+  // Stop keepalive interval
+  const stopKeepalive = useCallback(() => {
     if (keepaliveRef.current) {
       clearInterval(keepaliveRef.current)
+      keepaliveRef.current = null
     }
-    keepaliveRef.current = setInterval(async () => {
-      try {
-        await fetch(`${workerUrl}/api/agent/keepalive`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${accessToken}`
-          },
-          body: JSON.stringify({ sessionId })
-        })
-      } catch (e) {
-        console.log('Keepalive failed:', e)
+  }, [])
+
+  // Keep the sandbox awake; the worker ends the session here once the monthly budget is spent
+  const sendKeepalive = useCallback(async () => {
+    try {
+      const response = await fetch(`${workerUrl}/api/agent/keepalive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ sessionId })
+      })
+      const exceeded = await readQuotaExceeded(response)
+      if (exceeded) {
+        console.log('Session ended by the worker:', exceeded.code)
+        stopKeepalive()
+        wasConnectedRef.current = false
+        disconnect()
+        setIsResponding(false)
+        setQuotaExceeded(exceeded)
       }
-    }, 30000)
-  }, [workerUrl, accessToken, sessionId])
+    } catch (e) {
+      console.log('Keepalive failed:', e)
+    }
+  }, [workerUrl, accessToken, sessionId, stopKeepalive, disconnect])
 
-  // Stop keepalive interval
-  const stopKeepalive = useCallback(() => {
+  // Start keepalive interval
+  const startKeepalive = useCallback(() => {
     if (keepaliveRef.current) {
       clearInterval(keepaliveRef.current)
-      keepaliveRef.current = null
     }
-  }, [])
+    keepaliveRef.current = setInterval(sendKeepalive, 30000)
+  }, [sendKeepalive])
 
   // Connect: subscribe to channel FIRST, then start sandbox
   const connect = useCallback(async () => {
@@ -121,13 +218,14 @@ export function useChat({
     isConnectingRef.current = true
     setLostConnection(false)
     setChatError(null)
+    setQuotaExceeded(null)
 
     try {
       // 1. Subscribe to channel FIRST (so we don't miss 'ready' message)
-      console.log('Subscribing to channel:', sessionId)
-      await connectChannel(sessionId)
+      console.log('Subscribing to channel for session:', sessionId)
+      await connectChannel(sessionChannelName(userId, sessionId))
 
-      // 2. THEN call worker to start sandbox
+      // 2. THEN call worker to start sandbox, resuming the session's conversation if it has one
       console.log('Starting agent session:', sessionId)
       const response = await fetch(`${workerUrl}/api/agent/start`, {
         method: 'POST',
@@ -135,15 +233,33 @@ export function useChat({
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${accessToken}`
         },
-        body: JSON.stringify({ sessionId })
+        body: JSON.stringify({ sessionId, resume: true, ...clientContext() })
       })
 
+      // Over the user's session limits: no agent is coming, so stop waiting for one
+      const exceeded = await readQuotaExceeded(response)
+      if (exceeded) {
+        console.log('Agent start refused:', exceeded.code)
+        wasConnectedRef.current = false
+        disconnect()
+        setQuotaExceeded(exceeded)
+        return
+      }
+
       if (!response.ok) {
         const data = await response.json().catch(() => ({}))
         throw new Error(data.error || 'Failed to start agent')
       }
 
-      console.log('Agent session started')
+      // The agent was still running, so there is no new ready to wait for; a remounted page
+      // that hasn't seen its ready yet gets it replayed by the resync
+      const data = await response.json().catch(() => ({}))
+      if (data.status === 'running') {
+        console.log('Agent session still running')
+        resumeAgent()
+      } else {
+        console.log('Agent session started')
+      }
 
       // 3. Start keepalive interval
       startKeepalive()
@@ -157,7 +273,7 @@ export function useChat({
     } finally {
       isConnectingRef.current = false
     }
-  }, [accessToken, workerUrl, sessionId, connectChannel, startKeepalive])
+  }, [accessToken, userId, workerUrl, sessionId, connectChannel, resumeAgent, disconnect, startKeepalive])
 
   const sendMessage = useCallback(async (content: string) => {
     if (!content.trim()) return
@@ -178,31 +294,44 @@ export function useChat({
       setChatError('Failed to send message')
       return
     }
+    setIsResponding(true)
 
     // Send keepalive on every message
-    try {
-      await fetch(`${workerUrl}/api/agent/keepalive`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
-        },
-        body: JSON.stringify({ sessionId })
-      })
-    } catch (e) {
-      console.log('Keepalive failed:', e)
+    await sendKeepalive()
+  }, [sendToChannel, sendKeepalive])
+
+  // Abort the agent's current turn; the session stays open
+  const interrupt = useCallback(async () => {
+    const success = await sendEvent('interrupt')
+    if (!success) {
+      setChatError('Failed to stop the agent')
+    }
+  }, [sendEvent])
+
+  // Answer a permission request; the agent confirms with a permission_result
+  const respondToPermission = useCallback(async (requestId: string, approved: boolean) => {
+    const success = await sendEvent(approved ? 'approve' : 'deny', { requestId })
+    if (!success) {
+      setChatError('Failed to send your answer to the agent')
+      return
     }
-  }, [sendToChannel, workerUrl, accessToken, sessionId])
+    setMessages(prev => applyPermissionResult(prev, requestId, approved))
+  }, [sendEvent])
 
+  // Clearing starts a fresh session; the old transcript stays in storage
   const clearMessages = useCallback(() => {
     setMessages([])
     setChatError(null)
+    setIsResponding(false)
+    wasConnectedRef.current = false
+    setSessionId(crypto.randomUUID())
   }, [])
 
   // Detect lost connection - only if we were previously connected
   useEffect(() => {
     if (connectionState === 'disconnected' && wasConnectedRef.current && !isConnectingRef.current) {
       setLostConnection(true)
+      setIsResponding(false)
     }
   }, [connectionState])
 
@@ -233,10 +362,15 @@ export function useChat({
   return {
     messages,
     sendMessage,
+    interrupt,
+    respondToPermission,
+    isResponding,
     clearMessages,
     error: chatError || channelError,
+    quotaExceeded,
     connectionState,
     lostConnection,
-    connect
+    connect,
+    sessionId
   }
 }
@@ -0,0 +1,37 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import type { AgentMemory } from '../types/database'
+
+// What the agent remembers about the user across sessions
+export function useMemories() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  const { data: memories = [], isLoading } = useQuery({
+    queryKey: ['agent-memories'],
+    queryFn: async (): Promise<AgentMemory[]> => {
+      const { data, error } = await supabase
+        .from('agent_memories')
+        .select('*')
+        .order('created_at', { ascending: false })
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!user
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('agent_memories').delete().eq('id', id)
+      if (error) throw error
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['agent-memories'] })
+  })
+
+  return {
+    memories,
+    loading: isLoading,
+    deleteMemory: (id: string) => deleteMutation.mutate(id)
+  }
+}
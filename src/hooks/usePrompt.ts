@@ -1,53 +1,146 @@
-import { useState, useCallback, useRef } from 'react'
-import { useChannel, type ChannelMessage } from './useChannel'
-
-export interface PromptMessage {
-  id: string
-  type: 'assistant_message' | 'tool_use' | 'slash_output' | 'error'
-  content: string
-  timestamp: Date
-  toolName?: string
-  toolInput?: Record<string, unknown>
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { useChannel, sessionChannelName, type ChannelMessage } from './useChannel'
+import { fetchTranscript, sessionStorageKey } from '../lib/transcript'
+import { applyDelta, endStreaming, upsertMessage } from '../lib/streaming'
+import { applyToolResult } from '../lib/toolResults'
+import { applyPermissionResult, type PermissionPolicy } from '../lib/permissions'
+import { toDisplayMessage, type DisplayMessage } from '../lib/messages'
+import { readQuotaExceeded, type QuotaExceeded } from '../lib/quota'
+import { clientContext } from '../lib/clientContext'
+import { parseAgentMessage, type AgentMessage, type CompleteMessage } from '../../shared/protocol'
+
+export type PromptMessage = DisplayMessage
+
+// How long stop waits for the interrupted agent to report its outcome before the worker kills it
+const STOP_GRACE_MS = 5000
+
+// Per-run settings sent with the prompt
+export interface RunOptions {
+  permissionPolicy?: PermissionPolicy
+  outputSchema?: Record<string, unknown> // JSON Schema (type: object) for a machine-readable answer
+  dryRun?: boolean // propose todo and category changes for review instead of making them
+  // Overrides, bounded by the worker's policy for its environment
+  model?: string
+  maxTurns?: number
+  systemPromptAppend?: string
+  allowedTools?: string[]
 }
 
 interface UsePromptOptions {
   accessToken: string
+  userId: string
   workerUrl?: string
 }
 
 export function usePrompt({
   accessToken,
+  userId,
   workerUrl = 'http://localhost:8789'
 }: UsePromptOptions) {
   const [messages, setMessages] = useState<PromptMessage[]>([])
   const [promptError, setPromptError] = useState<string | null>(null)
   const [isRunning, setIsRunning] = useState(false)
   const [isComplete, setIsComplete] = useState(false)
+  const [isStopped, setIsStopped] = useState(false)
   const [currentPrompt, setCurrentPrompt] = useState<string | null>(null)
+  const [report, setReport] = useState<CompleteMessage | null>(null)
+  const [quotaExceeded, setQuotaExceeded] = useState<QuotaExceeded | null>(null)
+  const [sessionId, setSessionId] = useState<string | null>(null) // the run shown, for undoing its changes
 
   const runningRef = useRef(false)
+  const sessionIdRef = useRef<string | null>(null)
+  const completeWaiterRef = useRef<(() => void) | null>(null) // a stop waiting for the run to complete
+
+  // Restore the last run from its stored transcript
+  useEffect(() => {
+    if (!accessToken || !userId) return
+    const storedSessionId = localStorage.getItem(sessionStorageKey('prompt', userId))
+    if (!storedSessionId) return
+    let cancelled = false
+
+    fetchTranscript(workerUrl, accessToken, storedSessionId)
+      .then(entries => {
+        if (cancelled || entries.length === 0 || runningRef.current) return
+        console.log('Restored prompt transcript:', entries.length, 'entries')
+
+        const prompt = entries.find(entry => entry.event === 'user_message')
+        const agentMessages: AgentMessage[] = []
+        for (const entry of entries) {
+          if (entry.event !== 'agent_message') continue
+          const parsed = parseAgentMessage(entry.payload)
+          if (parsed.ok) {
+            agentMessages.push(parsed.message)
+          } else {
+            console.error('Skipping invalid transcript entry:', parsed.error)
+          }
+        }
+
+        setCurrentPrompt(prompt ? String(prompt.payload.content ?? '') : null)
+        let restored: PromptMessage[] = []
+        for (const msg of agentMessages) {
+          if (msg.type === 'tool_result') {
+            restored = applyToolResult(restored, msg)
+          } else if (msg.type === 'permission_result') {
+            restored = applyPermissionResult(restored, msg.requestId, msg.approved, msg.reason)
+          } else {
+            const message = toDisplayMessage(msg)
+            if (message) restored.push(message)
+          }
+        }
+        setMessages(restored)
+        setSessionId(storedSessionId)
+        setIsComplete(true)
+        const complete = agentMessages.find((msg): msg is CompleteMessage => msg.type === 'complete')
+        setReport(complete ?? null)
+        if (!complete) {
+          setPromptError('This run ended before it completed')
+        } else if (complete.status === 'interrupted') {
+          setIsStopped(true)
+        }
+      })
+      .catch(e => console.log('Failed to restore prompt transcript:', e))
+
+    return () => {
+      cancelled = true
+    }
+  }, [accessToken, userId, workerUrl])
 
   // Handle incoming messages from the channel
   const handleMessage = useCallback((msg: ChannelMessage) => {
-    if (msg.type === 'ready') {
-      // Agent is ready, nothing to display
+    // The run's outcome; the complete callback below settles the running state
+    if (msg.type === 'complete') {
+      setReport(msg)
+      if (msg.status === 'interrupted') setIsStopped(true)
       return
     }
 
-    if (msg.type === 'complete') {
-      // Handled by onComplete callback
+    if (msg.type === 'tool_result') {
+      setMessages(prev => applyToolResult(prev, msg))
       return
     }
 
-    // Add message to display
-    setMessages(prev => [...prev, {
-      id: crypto.randomUUID(),
-      type: msg.type as PromptMessage['type'],
-      content: msg.content || '',
-      timestamp: new Date(),
-      toolName: msg.toolName,
-      toolInput: msg.toolInput
-    }])
+    if (msg.type === 'permission_result') {
+      setMessages(prev => applyPermissionResult(prev, msg.requestId, msg.approved, msg.reason))
+      return
+    }
+
+    if (msg.type === 'assistant_delta') {
+      const { messageId, text } = msg
+      if (!text) return
+      setMessages(prev => applyDelta(prev, messageId, text, () => ({
+        id: messageId,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date(msg.timestamp)
+      })))
+      return
+    }
+
+    // ready and complete are handled by their callbacks
+    const message = toDisplayMessage(msg)
+    if (message) {
+      setMessages(prev => upsertMessage(prev, message))
+    }
   }, [])
 
   const handleReady = useCallback(() => {
@@ -59,12 +152,15 @@ export function usePrompt({
     console.log('Prompt completed')
     setIsRunning(false)
     setIsComplete(true)
+    setMessages(endStreaming)
     runningRef.current = false
+    completeWaiterRef.current?.()
   }, [])
 
   const handleError = useCallback((message: string) => {
     setPromptError(message)
     setIsRunning(false)
+    setMessages(endStreaming)
     runningRef.current = false
   }, [])
 
@@ -72,6 +168,7 @@ export function usePrompt({
     state: connectionState,
     error: channelError,
     connect: connectChannel,
+    sendEvent,
     disconnect
   } = useChannel({
     onMessage: handleMessage,
@@ -80,7 +177,7 @@ export function usePrompt({
     onError: handleError
   })
 
-  const runPrompt = useCallback(async (prompt: string) => {
+  const runPrompt = useCallback(async (prompt: string, { permissionPolicy = 'ask', ...options }: RunOptions = {}) => {
     if (!accessToken) {
       setPromptError('Not authenticated')
       return
@@ -96,12 +193,21 @@ export function usePrompt({
     setMessages([])
     setIsRunning(true)
     setIsComplete(false)
+    setIsStopped(false)
     setPromptError(null)
     setCurrentPrompt(prompt)
+    setReport(null)
+    setQuotaExceeded(null)
     runningRef.current = true
+    sessionIdRef.current = newSessionId
+    setSessionId(newSessionId)
+    localStorage.setItem(sessionStorageKey('prompt', userId), newSessionId)
 
     try {
-      // Start sandbox with prompt
+      // Subscribe first so the agent's earliest messages aren't missed (resync covers any that are)
+      await connectChannel(sessionChannelName(userId, newSessionId))
+
+      // Then start sandbox with prompt
       console.log('Starting prompt session:', newSessionId)
       const response = await fetch(`${workerUrl}/api/agent/prompt`, {
         method: 'POST',
@@ -111,45 +217,125 @@ export function usePrompt({
         },
         body: JSON.stringify({
           sessionId: newSessionId,
-          prompt
+          prompt,
+          permissionPolicy,
+          ...clientContext(),
+          ...options
         })
       })
 
+      // Over the user's session limits: back to the form so the prompt can be retried
+      const exceeded = await readQuotaExceeded(response)
+      if (exceeded) {
+        console.log('Prompt start refused:', exceeded.code)
+        disconnect()
+        localStorage.removeItem(sessionStorageKey('prompt', userId))
+        setQuotaExceeded(exceeded)
+        setIsRunning(false)
+        runningRef.current = false
+        sessionIdRef.current = null
+        setSessionId(null)
+        return
+      }
+
       if (!response.ok) {
         const data = await response.json().catch(() => ({}))
         throw new Error(data.error || 'Failed to start prompt')
       }
 
-      console.log('Prompt session started, connecting to channel...')
-
-      // Connect to channel to receive messages
-      await connectChannel(newSessionId)
+      console.log('Prompt session started')
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Failed to run prompt'
+      disconnect()
       setPromptError(message)
       setIsRunning(false)
       runningRef.current = false
     }
-  }, [accessToken, workerUrl, connectChannel])
+  }, [accessToken, userId, workerUrl, connectChannel, disconnect])
+
+  // Stop a running prompt: ask the agent to abort and give it a moment to report how the run ended,
+  // then have the worker kill the process if it is still there
+  const stop = useCallback(async () => {
+    const sessionId = sessionIdRef.current
+    if (!sessionId || !runningRef.current || completeWaiterRef.current) return
+
+    if (connectionState === 'connected' && await sendEvent('interrupt')) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, STOP_GRACE_MS)
+        completeWaiterRef.current = () => {
+          clearTimeout(timer)
+          resolve()
+        }
+      })
+      completeWaiterRef.current = null
+    }
+    disconnect()
+    setIsRunning(false)
+    setIsComplete(true)
+    setIsStopped(true)
+    setMessages(endStreaming)
+    runningRef.current = false
+
+    try {
+      const response = await fetch(`${workerUrl}/api/agent/stop`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ sessionId })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to stop prompt')
+      }
+    } catch (e) {
+      setPromptError(e instanceof Error ? e.message : 'Failed to stop prompt')
+    }
+  }, [connectionState, sendEvent, disconnect, workerUrl, accessToken])
+
+  // Answer a permission request; the agent confirms with a permission_result
+  const respondToPermission = useCallback(async (requestId: string, approved: boolean) => {
+    const success = await sendEvent(approved ? 'approve' : 'deny', { requestId })
+    if (!success) {
+      setPromptError('Failed to send your answer to the agent')
+      return
+    }
+    setMessages(prev => applyPermissionResult(prev, requestId, approved))
+  }, [sendEvent])
 
   const reset = useCallback(() => {
     disconnect()
+    localStorage.removeItem(sessionStorageKey('prompt', userId))
     setMessages([])
     setPromptError(null)
     setIsRunning(false)
     setIsComplete(false)
+    setIsStopped(false)
     setCurrentPrompt(null)
+    setReport(null)
+    setQuotaExceeded(null)
     runningRef.current = false
-  }, [disconnect])
+    sessionIdRef.current = null
+    setSessionId(null)
+  }, [disconnect, userId])
 
   return {
     messages,
     runPrompt,
+    stop,
+    respondToPermission,
     reset,
     isRunning,
     isComplete,
+    isStopped,
     currentPrompt,
+    sessionId,
+    report,
+    structuredOutput: report?.structuredOutput ?? null, // the run's validated answer, if it had an output schema
     error: promptError || channelError,
+    quotaExceeded,
     connectionState
   }
 }
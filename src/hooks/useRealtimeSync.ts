@@ -16,6 +16,7 @@ export function useRealtimeSync(userId: string | undefined) {
         (payload) => {
           console.log('[Realtime] todos changed:', payload.eventType)
           queryClient.invalidateQueries({ queryKey: ['todos'] })
+          queryClient.invalidateQueries({ queryKey: ['agent-audit'] }) // agent edits add undoable changes
         }
       )
       .on(
@@ -24,6 +25,15 @@ export function useRealtimeSync(userId: string | undefined) {
         (payload) => {
           console.log('[Realtime] categories changed:', payload.eventType)
           queryClient.invalidateQueries({ queryKey: ['categories'] })
+          queryClient.invalidateQueries({ queryKey: ['agent-audit'] })
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'agent_memories', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          console.log('[Realtime] agent memories changed:', payload.eventType)
+          queryClient.invalidateQueries({ queryKey: ['agent-memories'] })
         }
       )
       .subscribe((status) => {
@@ -0,0 +1,48 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import type { AgentAuditEntry, UndoResult } from '../types/database'
+
+// Changes an agent session made to todos and categories that haven't been undone yet
+export function useSessionChanges(sessionId: string | null) {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  const { data: changes = [] } = useQuery({
+    queryKey: ['agent-audit', sessionId],
+    queryFn: async (): Promise<AgentAuditEntry[]> => {
+      const { data, error } = await supabase
+        .from('agent_audit_log')
+        .select('*')
+        .eq('session_id', sessionId!)
+        .is('undone_at', null)
+        .order('id', { ascending: false })
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!user && !!sessionId
+  })
+
+  const undoMutation = useMutation({
+    mutationFn: async (): Promise<UndoResult> => {
+      if (!sessionId) throw new Error('No session to undo')
+      const { data, error } = await supabase.rpc('undo_agent_session', { p_session_id: sessionId })
+      if (error) throw error
+      return data as UndoResult
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['agent-audit', sessionId] })
+      queryClient.invalidateQueries({ queryKey: ['todos'] })
+      queryClient.invalidateQueries({ queryKey: ['categories'] })
+    }
+  })
+
+  return {
+    changes,
+    undo: undoMutation.mutate,
+    undoPending: undoMutation.isPending,
+    undoResult: undoMutation.data ?? null,
+    undoError: undoMutation.error?.message ?? null,
+    resetUndo: undoMutation.reset
+  }
+}
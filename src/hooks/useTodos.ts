@@ -1,7 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-import type { Todo } from '../types/database'
+import { assertApplied } from '../lib/bulk'
+import type { Todo, BulkResult } from '../types/database'
 
 export function useTodos() {
   const queryClient = useQueryClient()
@@ -50,12 +51,34 @@ export function useTodos() {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['todos'] })
   })
 
+  const bulkUpdateMutation = useMutation({
+    mutationFn: async (items: Array<{ id: string; completed?: boolean; category_id?: string | null }>) => {
+      const { data, error } = await supabase.rpc('bulk_update_todos', { items })
+      if (error) throw error
+      assertApplied(data as BulkResult)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['todos'] })
+  })
+
+  const bulkDeleteMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { data, error } = await supabase.rpc('bulk_delete_todos', { ids })
+      if (error) throw error
+      assertApplied(data as BulkResult)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['todos'] })
+  })
+
   return {
     todos,
     loading: isLoading,
     addTodo: (title: string, categoryId: string | null) => addMutation.mutate({ title, categoryId }),
     toggleTodo: (id: string, completed: boolean) => toggleMutation.mutate({ id, completed }),
     deleteTodo: (id: string) => deleteMutation.mutate(id),
+    setCompletedMany: (ids: string[], completed: boolean) =>
+      bulkUpdateMutation.mutateAsync(ids.map((id) => ({ id, completed }))),
+    deleteMany: (ids: string[]) => bulkDeleteMutation.mutateAsync(ids),
+    bulkPending: bulkUpdateMutation.isPending || bulkDeleteMutation.isPending,
     refetch: () => queryClient.invalidateQueries({ queryKey: ['todos'] })
   }
 }
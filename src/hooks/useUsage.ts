@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import type { AgentBudget, AgentUsageDay, AgentUsageSession } from '../types/database'
+
+const USAGE_DAYS = 30
+const USAGE_SESSIONS = 50
+
+// Numeric columns may arrive as strings, so normalize the totals
+function toTotals<T extends { turns: number; input_tokens: number; output_tokens: number; cost_usd: number; sandbox_seconds: number }>(row: T): T {
+  return {
+    ...row,
+    turns: Number(row.turns),
+    input_tokens: Number(row.input_tokens),
+    output_tokens: Number(row.output_tokens),
+    cost_usd: Number(row.cost_usd),
+    sandbox_seconds: Number(row.sandbox_seconds)
+  }
+}
+
+export function useUsage() {
+  const { user } = useAuth()
+
+  const { data: days = [], isLoading: daysLoading, error: daysError } = useQuery({
+    queryKey: ['agent-usage', 'days'],
+    queryFn: async (): Promise<AgentUsageDay[]> => {
+      const since = new Date(Date.now() - USAGE_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      const { data, error } = await supabase
+        .from('agent_usage_daily')
+        .select('*')
+        .gte('day', since)
+        .order('day', { ascending: false })
+      if (error) throw error
+      return (data || []).map(toTotals)
+    },
+    enabled: !!user
+  })
+
+  const { data: sessions = [], isLoading: sessionsLoading, error: sessionsError } = useQuery({
+    queryKey: ['agent-usage', 'sessions'],
+    queryFn: async (): Promise<AgentUsageSession[]> => {
+      const { data, error } = await supabase
+        .from('agent_usage_sessions')
+        .select('*')
+        .order('last_used_at', { ascending: false })
+        .limit(USAGE_SESSIONS)
+      if (error) throw error
+      return (data || []).map(toTotals)
+    },
+    enabled: !!user
+  })
+
+  const { data: budget = null } = useQuery({
+    queryKey: ['agent-usage', 'budget'],
+    queryFn: async (): Promise<AgentBudget | null> => {
+      const { data, error } = await supabase
+        .from('agent_budgets')
+        .select('*')
+        .maybeSingle()
+      if (error) throw error
+      return data ? { ...data, monthly_limit_usd: Number(data.monthly_limit_usd) } : null
+    },
+    enabled: !!user
+  })
+
+  // Budgets cover the calendar month in UTC, like the worker's check
+  const month = new Date().toISOString().slice(0, 7)
+  const monthCostUsd = days
+    .filter(day => day.day.startsWith(month))
+    .reduce((total, day) => total + day.cost_usd, 0)
+
+  return {
+    days,
+    sessions,
+    budget,
+    monthCostUsd,
+    loading: daysLoading || sessionsLoading,
+    error: (daysError ?? sessionsError)?.message ?? null
+  }
+}
@@ -0,0 +1,8 @@
+import type { BulkResult } from '../types/database'
+
+// Surface the first failing item of a batch that was rolled back
+export function assertApplied(result: BulkResult): void {
+  if (result.applied) return
+  const failures = result.results.filter((r) => !r.ok)
+  throw new Error(`${failures.length} item(s) failed, nothing was changed: ${failures[0]?.error ?? 'unknown error'}`)
+}
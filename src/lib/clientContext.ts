@@ -0,0 +1,8 @@
+// The browser's time zone and locale, sent when starting the agent so its
+// system prompt can give the date and time the way the user sees them
+export function clientContext(): { timezone: string; locale: string } {
+  return {
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    locale: navigator.language
+  }
+}
@@ -0,0 +1,74 @@
+// Turning protocol messages from the agent into messages the UI can render
+import type { AgentMessage } from '../../shared/protocol'
+import type { ToolStatus } from './toolResults'
+import type { PermissionStatus } from './permissions'
+
+export interface DisplayMessage {
+  id: string
+  role: 'user' | 'assistant' | 'tool_use' | 'slash_output' | 'permission_request' | 'context_compacted' | 'error'
+  content: string
+  timestamp: Date
+  toolName?: string
+  toolInput?: Record<string, unknown>
+  toolUseId?: string
+  toolStatus?: ToolStatus
+  toolResult?: string
+  toolResultTruncated?: boolean
+  requestId?: string
+  permissionStatus?: PermissionStatus
+  permissionReason?: string
+  streaming?: boolean // assistant text still arriving
+}
+
+// Convert an agent message into a displayable message (null for control messages)
+export function toDisplayMessage(msg: AgentMessage): DisplayMessage | null {
+  const timestamp = new Date(msg.timestamp)
+
+  switch (msg.type) {
+    case 'assistant_message':
+      return { id: msg.messageId || crypto.randomUUID(), role: 'assistant', content: msg.content, timestamp }
+    case 'tool_use':
+      return {
+        id: crypto.randomUUID(),
+        role: 'tool_use',
+        content: '',
+        timestamp,
+        toolName: msg.toolName,
+        toolInput: msg.toolInput,
+        toolUseId: msg.toolUseId,
+        toolStatus: 'pending'
+      }
+    case 'slash_output':
+      return { id: crypto.randomUUID(), role: 'slash_output', content: msg.content, timestamp }
+    case 'permission_request':
+      return {
+        id: msg.requestId,
+        role: 'permission_request',
+        content: '',
+        timestamp,
+        toolName: msg.toolName,
+        toolInput: msg.toolInput,
+        requestId: msg.requestId,
+        permissionStatus: 'pending'
+      }
+    case 'context_compacted': {
+      const size = `${Math.round(msg.preTokens / 1000)}k tokens`
+      const content = msg.trigger === 'manual'
+        ? `Conversation compacted (was ${size})`
+        : `Earlier messages summarized to keep the conversation short (was ${size})`
+      return { id: crypto.randomUUID(), role: 'context_compacted', content, timestamp }
+    }
+    case 'error':
+      return { id: crypto.randomUUID(), role: 'error', content: msg.message, timestamp }
+    default:
+      return null
+  }
+}
+
+export function formatToolName(name: string): string {
+  // Convert mcp__todos__ListTodos to "List Todos"
+  const parts = name.split('__')
+  const toolName = parts[parts.length - 1]
+  // Insert space before capital letters
+  return toolName.replace(/([A-Z])/g, ' $1').trim()
+}
@@ -0,0 +1,29 @@
+// Approval of dangerous tool calls requested by the agent
+export type PermissionPolicy = 'ask' | 'auto-approve' | 'auto-deny'
+
+export type PermissionStatus = 'pending' | 'approved' | 'denied'
+
+interface PermissionMessage {
+  requestId?: string
+  permissionStatus?: PermissionStatus
+  permissionReason?: string
+}
+
+// Record the decision on a permission request message
+export function applyPermissionResult<T extends PermissionMessage>(
+  messages: T[],
+  requestId: string | undefined,
+  approved: boolean,
+  reason?: string
+): T[] {
+  const index = messages.findIndex(message => !!requestId && message.requestId === requestId)
+  if (index === -1) return messages
+
+  const next = [...messages]
+  next[index] = {
+    ...next[index],
+    permissionStatus: approved ? 'approved' : 'denied',
+    permissionReason: reason ?? next[index].permissionReason
+  }
+  return next
+}
@@ -0,0 +1,32 @@
+// Per-user limits the worker puts on agent sessions, reported as 429 responses
+// (or 402 once the monthly budget is spent)
+export type QuotaCode = 'too_many_sessions' | 'rate_limited' | 'budget_exceeded'
+
+export interface QuotaExceeded {
+  code: QuotaCode
+  message: string
+  retryAt: number // ms timestamp after which starting again should work
+}
+
+// Default wait when the worker doesn't say how long
+const DEFAULT_RETRY_AFTER_SECONDS = 30
+
+// Read a refused start from /start or /prompt, or a keepalive over budget; null for any other response
+export async function readQuotaExceeded(response: Response): Promise<QuotaExceeded | null> {
+  if (response.status !== 429 && response.status !== 402) return null
+
+  const data = await response.json().catch(() => ({}))
+  const retryAfter = Number(response.headers.get('Retry-After') ?? data.retryAfter) || DEFAULT_RETRY_AFTER_SECONDS
+  if (response.status === 402) {
+    return {
+      code: 'budget_exceeded',
+      message: data.error || 'Monthly agent budget exceeded',
+      retryAt: Date.now() + retryAfter * 1000
+    }
+  }
+  return {
+    code: data.code === 'rate_limited' ? 'rate_limited' : 'too_many_sessions',
+    message: data.error || 'Too many agent sessions',
+    retryAt: Date.now() + retryAfter * 1000
+  }
+}
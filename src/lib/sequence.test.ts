@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import type { AgentMessage } from '../../shared/protocol'
+import { newSequenceState, receiveMessage, skipGap } from './sequence'
+
+function message(seq: number, epoch = 'one'): AgentMessage {
+  return { type: 'slash_output', content: `#${seq}`, timestamp: seq, seq, epoch }
+}
+
+const seqs = (messages: AgentMessage[]) => messages.map(msg => msg.seq)
+
+describe('receiveMessage', () => {
+  it('delivers messages that arrive in order', () => {
+    const state = newSequenceState('session:u:s')
+    expect(seqs(receiveMessage(state, message(1)).deliver)).toEqual([1])
+    expect(seqs(receiveMessage(state, message(2)).deliver)).toEqual([2])
+    expect(state.lastSeq).toBe(2)
+  })
+
+  it('holds messages after a gap and reports it until the gap is filled', () => {
+    const state = newSequenceState(null)
+    receiveMessage(state, message(1))
+
+    const ahead = receiveMessage(state, message(3))
+    expect(ahead.deliver).toEqual([])
+    expect(ahead.gap).toBe(true)
+
+    const filled = receiveMessage(state, message(2))
+    expect(seqs(filled.deliver)).toEqual([2, 3])
+    expect(filled.gap).toBe(false)
+  })
+
+  it('drops duplicates from a replay', () => {
+    const state = newSequenceState(null)
+    receiveMessage(state, message(1))
+    receiveMessage(state, message(3))
+    expect(receiveMessage(state, message(1)).deliver).toEqual([])
+    expect(receiveMessage(state, message(3)).deliver).toEqual([])
+    expect(state.pending.size).toBe(1)
+  })
+
+  it('starts numbering again when the epoch changes', () => {
+    const state = newSequenceState(null)
+    receiveMessage(state, message(1))
+    receiveMessage(state, message(2))
+    receiveMessage(state, message(5))
+    state.ready = true
+
+    const update = receiveMessage(state, message(1, 'two'))
+    expect(update.restarted).toBe(true)
+    expect(seqs(update.deliver)).toEqual([1])
+    expect(update.gap).toBe(false)
+    expect(state).toMatchObject({ epoch: 'two', lastSeq: 1, ready: false })
+    expect(state.pending.size).toBe(0)
+  })
+
+  it('ignores stragglers from an epoch it has moved past', () => {
+    const state = newSequenceState(null)
+    receiveMessage(state, message(1))
+    receiveMessage(state, message(1, 'two'))
+
+    const straggler = receiveMessage(state, message(2))
+    expect(straggler).toEqual({ deliver: [], restarted: false, gap: false })
+    expect(state.epoch).toBe('two')
+  })
+
+  it('passes unnumbered messages straight through', () => {
+    const state = newSequenceState(null)
+    const unnumbered: AgentMessage = { type: 'error', message: 'boom', timestamp: 1 }
+    expect(receiveMessage(state, unnumbered).deliver).toEqual([unnumbered])
+    expect(state.lastSeq).toBe(0)
+  })
+})
+
+describe('skipGap', () => {
+  it('skips to the first message held and delivers from there', () => {
+    const state = newSequenceState(null)
+    receiveMessage(state, message(1))
+    receiveMessage(state, message(4))
+    receiveMessage(state, message(5))
+    receiveMessage(state, message(7))
+
+    const update = skipGap(state)
+    expect(seqs(update.deliver)).toEqual([4, 5])
+    expect(update.gap).toBe(true)
+    expect(seqs(skipGap(state).deliver)).toEqual([7])
+  })
+
+  it('does nothing without a gap', () => {
+    const state = newSequenceState(null)
+    receiveMessage(state, message(1))
+    expect(skipGap(state)).toEqual({ deliver: [], restarted: false, gap: false })
+    expect(state.lastSeq).toBe(1)
+  })
+})
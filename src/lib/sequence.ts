@@ -0,0 +1,71 @@
+// Putting the agent's numbered messages back in order: each agent process numbers its
+// messages from 1 under a fresh epoch, and Realtime may drop, repeat or reorder them
+import type { AgentMessage } from '../../shared/protocol'
+
+// Tracks delivery order so messages reach callbacks once and in sequence
+export interface SequenceState {
+  channelName: string | null
+  epoch: string | null
+  retiredEpochs: Set<string>
+  lastSeq: number // highest sequence delivered with no gaps before it
+  pending: Map<number, AgentMessage> // arrived ahead of a gap
+  ready: boolean // the current agent process's ready was delivered
+}
+
+// What an arriving message, or giving up on a gap, lets through
+export interface SequenceUpdate {
+  deliver: AgentMessage[] // in order, ready for the callbacks
+  restarted: boolean // a new agent process started numbering again
+  gap: boolean // messages are waiting on missing ones before them
+}
+
+export function newSequenceState(channelName: string | null): SequenceState {
+  return { channelName, epoch: null, retiredEpochs: new Set(), lastSeq: 0, pending: new Map(), ready: false }
+}
+
+// Take every pending message that no longer waits on a gap
+function drain(state: SequenceState, restarted: boolean): SequenceUpdate {
+  const deliver: AgentMessage[] = []
+  while (state.pending.has(state.lastSeq + 1)) {
+    const next = state.pending.get(state.lastSeq + 1)!
+    state.pending.delete(next.seq!)
+    state.lastSeq = next.seq!
+    deliver.push(next)
+  }
+  return { deliver, restarted, gap: state.pending.size > 0 }
+}
+
+// Place an arriving message; unnumbered ones go straight through
+export function receiveMessage(state: SequenceState, msg: AgentMessage): SequenceUpdate {
+  if (msg.seq === undefined || !msg.epoch) {
+    return { deliver: [msg], restarted: false, gap: state.pending.size > 0 }
+  }
+  if (state.retiredEpochs.has(msg.epoch)) {
+    return { deliver: [], restarted: false, gap: state.pending.size > 0 }
+  }
+
+  let restarted = false
+  if (msg.epoch !== state.epoch) {
+    // A new agent process numbers from 1 again; stragglers from the old one are dropped
+    if (state.epoch) state.retiredEpochs.add(state.epoch)
+    state.epoch = msg.epoch
+    state.lastSeq = 0
+    state.pending.clear()
+    state.ready = false
+    restarted = true
+  }
+  // Replays overlap with what we already have
+  if (msg.seq <= state.lastSeq || state.pending.has(msg.seq)) {
+    return { deliver: [], restarted, gap: state.pending.size > 0 }
+  }
+
+  state.pending.set(msg.seq, msg)
+  return drain(state, restarted)
+}
+
+// The missing messages are gone for good (they left the agent's replay buffer): skip past them
+export function skipGap(state: SequenceState): SequenceUpdate {
+  if (state.pending.size === 0) return { deliver: [], restarted: false, gap: false }
+  state.lastSeq = Math.min(...state.pending.keys()) - 1
+  return drain(state, false)
+}
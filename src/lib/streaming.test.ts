@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { applyDelta, endStreaming, upsertMessage } from './streaming'
+
+interface Message {
+  id: string
+  content: string
+  role: string
+  streaming?: boolean
+}
+
+const create = (): Message => ({ id: '', content: '', role: 'assistant' })
+
+describe('applyDelta', () => {
+  it('starts a streaming message on the first chunk', () => {
+    expect(applyDelta([], 'm1', 'Hel', create))
+      .toEqual([{ id: 'm1', content: 'Hel', role: 'assistant', streaming: true }])
+  })
+
+  it('appends later chunks to their own message', () => {
+    let messages = applyDelta<Message>([], 'm1', 'Hel', create)
+    messages = applyDelta(messages, 'm2', 'Other', create)
+    messages = applyDelta(messages, 'm1', 'lo', create)
+    expect(messages.map(message => message.content)).toEqual(['Hello', 'Other'])
+  })
+
+  it('leaves a completed message alone when a late chunk arrives', () => {
+    const messages: Message[] = [{ id: 'm1', content: 'Hello', role: 'assistant' }]
+    expect(applyDelta(messages, 'm1', 'lo', create)).toBe(messages)
+  })
+})
+
+describe('upsertMessage', () => {
+  it('replaces the streamed version with the complete message', () => {
+    const streamed = applyDelta<Message>([], 'm1', 'Hel', create)
+    const complete: Message = { id: 'm1', content: 'Hello', role: 'assistant' }
+    expect(upsertMessage(streamed, complete)).toEqual([complete])
+  })
+
+  it('adds a message it has not seen', () => {
+    const first: Message = { id: 'm1', content: 'Hi', role: 'user' }
+    const second: Message = { id: 'm2', content: 'Hello', role: 'assistant' }
+    expect(upsertMessage([first], second)).toEqual([first, second])
+  })
+
+  it('keeps the message in place when it is replayed', () => {
+    const messages: Message[] = [
+      { id: 'm1', content: 'Hi', role: 'user' },
+      { id: 'm2', content: 'Hello', role: 'assistant' }
+    ]
+    expect(upsertMessage(messages, { ...messages[0] }).map(message => message.id)).toEqual(['m1', 'm2'])
+  })
+})
+
+describe('endStreaming', () => {
+  it('settles messages still streaming', () => {
+    const messages = applyDelta<Message>([], 'm1', 'Hel', create)
+    expect(endStreaming(messages)).toEqual([{ id: 'm1', content: 'Hel', role: 'assistant', streaming: false }])
+  })
+
+  it('returns the same list when nothing is streaming', () => {
+    const messages: Message[] = [{ id: 'm1', content: 'Hello', role: 'assistant' }]
+    expect(endStreaming(messages)).toBe(messages)
+  })
+})
@@ -0,0 +1,43 @@
+// Assembling streamed assistant output into a single growing message
+interface StreamableMessage {
+  id: string
+  content: string
+  streaming?: boolean
+}
+
+// Append a streamed chunk to its message, starting the message on the first chunk
+export function applyDelta<T extends StreamableMessage>(
+  messages: T[],
+  messageId: string,
+  text: string,
+  create: () => T
+): T[] {
+  const index = messages.findIndex(message => message.id === messageId)
+  if (index === -1) {
+    return [...messages, { ...create(), id: messageId, content: text, streaming: true }]
+  }
+
+  // A chunk arriving after the complete message is already included in it
+  const existing = messages[index]
+  if (!existing.streaming) return messages
+
+  const next = [...messages]
+  next[index] = { ...existing, content: existing.content + text }
+  return next
+}
+
+// Add a complete message, replacing the streamed version with the same id
+export function upsertMessage<T extends StreamableMessage>(messages: T[], message: T): T[] {
+  const index = messages.findIndex(existing => existing.id === message.id)
+  if (index === -1) return [...messages, message]
+
+  const next = [...messages]
+  next[index] = message
+  return next
+}
+
+// Settle any message still streaming once the turn ends (e.g. it was interrupted)
+export function endStreaming<T extends StreamableMessage>(messages: T[]): T[] {
+  if (!messages.some(message => message.streaming)) return messages
+  return messages.map(message => message.streaming ? { ...message, streaming: false } : message)
+}
@@ -0,0 +1,31 @@
+// Pairing tool results with the tool_use messages that produced them
+export type ToolStatus = 'pending' | 'success' | 'error'
+
+interface ToolCallMessage {
+  toolUseId?: string
+  toolStatus?: ToolStatus
+  toolResult?: string
+  toolResultTruncated?: boolean
+}
+
+export interface ToolResult {
+  toolUseId?: string
+  isError?: boolean
+  content?: string
+  truncated?: boolean
+}
+
+// Record a tool's outcome on its tool_use message (results for unknown calls are dropped)
+export function applyToolResult<T extends ToolCallMessage>(messages: T[], result: ToolResult): T[] {
+  const index = messages.findIndex(message => !!result.toolUseId && message.toolUseId === result.toolUseId)
+  if (index === -1) return messages
+
+  const next = [...messages]
+  next[index] = {
+    ...next[index],
+    toolStatus: result.isError ? 'error' : 'success',
+    toolResult: result.content || '',
+    toolResultTruncated: !!result.truncated
+  }
+  return next
+}
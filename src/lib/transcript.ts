@@ -0,0 +1,34 @@
+// Session transcripts persisted by the worker in R2
+export interface TranscriptEntry {
+  event: 'agent_message' | 'user_message'
+  payload: Record<string, unknown>
+  timestamp: number
+}
+
+// localStorage key remembering a user's current session, so a reload can rehydrate it
+export function sessionStorageKey(kind: 'chat' | 'prompt', userId: string): string {
+  return `agent-session:${kind}:${userId}`
+}
+
+// Fetch the stored transcript for a session (empty if none exists or it isn't ours)
+export async function fetchTranscript(
+  workerUrl: string,
+  accessToken: string,
+  sessionId: string
+): Promise<TranscriptEntry[]> {
+  const response = await fetch(`${workerUrl}/api/agent/sessions/${sessionId}/transcript`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  })
+
+  if (response.status === 404 || response.status === 403) {
+    return []
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Failed to load transcript')
+  }
+
+  const data = await response.json() as { entries: TranscriptEntry[] }
+  return data.entries
+}
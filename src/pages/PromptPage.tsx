@@ -2,29 +2,55 @@ import { useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
 import { usePrompt } from '../hooks/usePrompt'
 import { MessageList } from '../components/MessageList'
+import { RunSummary } from '../components/RunSummary'
+import { QuotaBanner } from '../components/QuotaBanner'
+import { SessionUndo } from '../components/SessionUndo'
+import { ProposedChanges } from '../components/ProposedChanges'
+import { AdvancedOptions, type AgentOverrides } from '../components/AdvancedOptions'
+import { useAgentOptions } from '../hooks/useAgentOptions'
+import type { PermissionPolicy } from '../lib/permissions'
+
+const permissionPolicyLabels: Record<PermissionPolicy, string> = {
+  'ask': 'Ask me',
+  'auto-approve': 'Always allow',
+  'auto-deny': 'Never allow'
+}
 
 export function PromptPage() {
   const { session } = useAuth()
   const [promptText, setPromptText] = useState('')
+  const [permissionPolicy, setPermissionPolicy] = useState<PermissionPolicy>('ask')
+  const [dryRun, setDryRun] = useState(false)
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const [overrides, setOverrides] = useState<AgentOverrides>({})
+  const workerUrl = import.meta.env.VITE_CLOUDFLARE_WORKER_URL || 'http://localhost:8789'
+  const { options: agentOptions } = useAgentOptions(session?.access_token ?? '', workerUrl)
 
   const {
     messages,
     runPrompt,
+    stop,
+    respondToPermission,
     reset,
     isRunning,
     isComplete,
+    isStopped,
     currentPrompt,
+    sessionId,
+    report,
     error,
+    quotaExceeded,
     connectionState
   } = usePrompt({
     accessToken: session?.access_token ?? '',
-    workerUrl: import.meta.env.VITE_CLOUDFLARE_WORKER_URL || 'http://localhost:8789'
+    userId: session?.user.id ?? '',
+    workerUrl
   })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (!promptText.trim() || isRunning) return
-    runPrompt(promptText.trim())
+    runPrompt(promptText.trim(), { permissionPolicy, dryRun, ...overrides })
   }
 
   const handleReset = () => {
@@ -33,13 +59,22 @@ export function PromptPage() {
   }
 
   // Connection status indicator
-  const statusColor = isComplete
+  const failed = report?.status === 'error' || report?.status === 'max_turns'
+  const statusColor = isStopped
+    ? 'bg-amber-500'
+    : failed
+    ? 'bg-red-500'
+    : isComplete
     ? 'bg-green-500'
     : isRunning
     ? 'bg-yellow-500'
     : 'bg-gray-400'
 
-  const statusText = isComplete
+  const statusText = isStopped
+    ? 'Stopped'
+    : failed
+    ? 'Failed'
+    : isComplete
     ? 'Complete'
     : isRunning
     ? connectionState === 'connected'
@@ -57,14 +92,27 @@ export function PromptPage() {
             {statusText}
           </div>
         </div>
-        {(isRunning || isComplete) && (
-          <button
-            onClick={handleReset}
-            className="text-sm text-gray-500 hover:text-gray-700"
-          >
-            New prompt
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          {isRunning && (
+            <button
+              onClick={stop}
+              className="flex items-center gap-1.5 px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="1" />
+              </svg>
+              Stop
+            </button>
+          )}
+          {(isRunning || isComplete) && (
+            <button
+              onClick={handleReset}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              New prompt
+            </button>
+          )}
+        </div>
       </div>
 
       {error && (
@@ -73,6 +121,8 @@ export function PromptPage() {
         </div>
       )}
 
+      {quotaExceeded && <QuotaBanner quota={quotaExceeded} />}
+
       {/* Prompt input form - shown when not running */}
       {!isRunning && !isComplete && (
         <form onSubmit={handleSubmit} className="mb-4">
@@ -84,13 +134,47 @@ export function PromptPage() {
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
             disabled={isRunning}
           />
-          <button
-            type="submit"
-            disabled={!promptText.trim() || isRunning}
-            className="mt-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-          >
-            Go
-          </button>
+          <div className="mt-2 flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={!promptText.trim() || isRunning}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              Go
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Destructive actions:
+              <select
+                value={permissionPolicy}
+                onChange={(e) => setPermissionPolicy(e.target.value as PermissionPolicy)}
+                className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(permissionPolicyLabels) as PermissionPolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{permissionPolicyLabels[policy]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600" title="Propose changes for review instead of making them">
+              <input
+                type="checkbox"
+                checked={dryRun}
+                onChange={(e) => setDryRun(e.target.checked)}
+              />
+              Dry run
+            </label>
+            <button
+              type="button"
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              className="ml-auto text-sm text-gray-500 hover:text-gray-700"
+            >
+              {showAdvanced ? 'Hide advanced' : 'Advanced'}
+            </button>
+          </div>
+          {showAdvanced && (
+            <div className="mt-2">
+              <AdvancedOptions options={agentOptions} value={overrides} onChange={setOverrides} />
+            </div>
+          )}
         </form>
       )}
 
@@ -113,11 +197,24 @@ export function PromptPage() {
             <MessageList
               messages={messages}
               emptyMessage={isRunning ? 'Waiting for agent response...' : 'No messages'}
+              onPermissionResponse={isRunning ? respondToPermission : undefined}
             />
           </div>
 
-          {/* Completion indicator */}
-          {isComplete && (
+          {/* Completion report, or a plain indicator when the agent didn't send one */}
+          {report && <RunSummary report={report} />}
+          {report?.proposedChanges && (
+            <ProposedChanges key={sessionId} changes={report.proposedChanges} sessionId={sessionId} />
+          )}
+          {!report && isStopped && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2 text-amber-700">
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="1" />
+              </svg>
+              Prompt stopped
+            </div>
+          )}
+          {!report && isComplete && !isStopped && (
             <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2 text-green-700">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -125,6 +222,13 @@ export function PromptPage() {
               Prompt completed successfully
             </div>
           )}
+
+          {/* Offer to revert what the run changed once it has finished */}
+          {isComplete && (
+            <div className="mt-2">
+              <SessionUndo key={sessionId} sessionId={sessionId} />
+            </div>
+          )}
         </>
       )}
 
@@ -0,0 +1,129 @@
+import { useUsage } from '../hooks/useUsage'
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`
+}
+
+function formatTokens(count: number): string {
+  if (count < 1000) return String(count)
+  if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`
+  return `${(count / 1_000_000).toFixed(2)}M`
+}
+
+function formatSandboxTime(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  return `${Math.round(seconds / 60)}m`
+}
+
+function BudgetBar({ spentUsd, limitUsd }: { spentUsd: number; limitUsd: number }) {
+  const ratio = limitUsd > 0 ? Math.min(1, spentUsd / limitUsd) : 1
+  const barColor = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-green-500'
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>This month</span>
+        <span>{formatCost(spentUsd)} of {formatCost(limitUsd)}</span>
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+      {ratio >= 1 && (
+        <p className="mt-1 text-sm text-red-600">
+          Monthly budget used up. The agent can't be started again until next month.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export function UsagePage() {
+  const { days, sessions, budget, monthCostUsd, loading, error } = useUsage()
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Budget</h2>
+        {budget ? (
+          <BudgetBar spentUsd={monthCostUsd} limitUsd={budget.monthly_limit_usd} />
+        ) : (
+          <p className="text-sm text-gray-600">
+            {formatCost(monthCostUsd)} spent this month. No monthly limit is set.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Last 30 days</h2>
+        {days.length === 0 ? (
+          <p className="text-sm text-gray-500">No agent usage yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="pb-2 font-medium">Day</th>
+                <th className="pb-2 font-medium text-right">Turns</th>
+                <th className="pb-2 font-medium text-right">Tokens in / out</th>
+                <th className="pb-2 font-medium text-right">Sandbox</th>
+                <th className="pb-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-800">
+              {days.map(day => (
+                <tr key={day.day} className="border-t border-gray-100">
+                  <td className="py-1.5">{day.day}</td>
+                  <td className="py-1.5 text-right">{day.turns}</td>
+                  <td className="py-1.5 text-right">
+                    {formatTokens(day.input_tokens)} / {formatTokens(day.output_tokens)}
+                  </td>
+                  <td className="py-1.5 text-right">{formatSandboxTime(day.sandbox_seconds)}</td>
+                  <td className="py-1.5 text-right">{formatCost(day.cost_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Sessions</h2>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No sessions yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="pb-2 font-medium">Last used</th>
+                <th className="pb-2 font-medium text-right">Turns</th>
+                <th className="pb-2 font-medium text-right">Tokens in / out</th>
+                <th className="pb-2 font-medium text-right">Sandbox</th>
+                <th className="pb-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-800">
+              {sessions.map(session => (
+                <tr key={session.session_id} className="border-t border-gray-100" title={session.session_id}>
+                  <td className="py-1.5">{new Date(session.last_used_at).toLocaleString()}</td>
+                  <td className="py-1.5 text-right">{session.turns}</td>
+                  <td className="py-1.5 text-right">
+                    {formatTokens(session.input_tokens)} / {formatTokens(session.output_tokens)}
+                  </td>
+                  <td className="py-1.5 text-right">{formatSandboxTime(session.sandbox_seconds)}</td>
+                  <td className="py-1.5 text-right">{formatCost(session.cost_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
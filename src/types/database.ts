@@ -17,3 +17,82 @@ export interface Todo {
 export interface TodoWithCategory extends Todo {
   category: Category | null
 }
+
+// Per-item outcome of a bulk_*_todos or apply_change_set RPC
+export interface BulkItemResult {
+  index: number
+  ok: boolean
+  todo?: Todo
+  error?: string
+}
+
+// Bulk RPCs are all-or-nothing: applied is false if any item failed
+export interface BulkResult {
+  applied: boolean
+  results: BulkItemResult[]
+}
+
+// Totals from the agent_usage_daily and agent_usage_sessions views
+interface AgentUsageTotals {
+  user_id: string
+  turns: number
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+  sandbox_seconds: number
+}
+
+export interface AgentUsageDay extends AgentUsageTotals {
+  day: string // YYYY-MM-DD (UTC)
+}
+
+export interface AgentUsageSession extends AgentUsageTotals {
+  session_id: string
+  first_used_at: string
+  last_used_at: string
+}
+
+// Monthly spending limit set by operators; absent means no limit
+export interface AgentBudget {
+  user_id: string
+  monthly_limit_usd: number
+  updated_at: string
+}
+
+// A change the agent made, from agent_audit_log
+export interface AgentAuditEntry {
+  id: number
+  user_id: string
+  session_id: string
+  tool: string | null
+  table_name: 'todos' | 'categories'
+  row_id: string
+  operation: 'insert' | 'update' | 'delete'
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  undone_at: string | null
+  created_at: string
+}
+
+// A change undo_agent_session left alone because the row was changed after the agent's edit
+export interface UndoConflict {
+  id: number
+  tool: string | null
+  table_name: AgentAuditEntry['table_name']
+  row_id: string
+  operation: AgentAuditEntry['operation']
+  reason: string
+}
+
+export interface UndoResult {
+  undone: number
+  conflicts: UndoConflict[]
+}
+
+// Something the agent remembered about the user, from agent_memories
+export interface AgentMemory {
+  id: string
+  user_id: string
+  content: string
+  created_at: string
+}
@@ -0,0 +1,19 @@
+-- Agent sessions talk over private Realtime broadcast channels named
+-- session:<user_id>:<session_id>. Only the owning user (and the sandbox agent,
+-- which connects with that user's token) may join, send or receive on them.
+
+CREATE POLICY "Users can receive own agent session broadcasts" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND split_part(realtime.topic(), ':', 1) = 'session'
+    AND split_part(realtime.topic(), ':', 2) = (SELECT auth.uid())::text
+  );
+
+CREATE POLICY "Users can send own agent session broadcasts" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND split_part(realtime.topic(), ':', 1) = 'session'
+    AND split_part(realtime.topic(), ':', 2) = (SELECT auth.uid())::text
+  );
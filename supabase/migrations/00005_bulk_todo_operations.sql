@@ -0,0 +1,215 @@
+-- Bulk todo operations, used by the agent's Bulk* tools and multi-select in the todo list.
+-- The functions run as the caller (SECURITY INVOKER) so RLS still applies, and only touch
+-- rows owned by auth.uid(). Each is all-or-nothing: every item is attempted, and if any
+-- fails the whole batch is rolled back. The result reports whether the batch was applied
+-- plus a per-item entry { index, ok, todo | error } in input order. Batches are limited
+-- to 500 items.
+
+-- plpgsql variables survive a rolled-back block, so a failed batch still reports every
+-- item; the rows of items that succeeded were undone, so they are dropped from the result.
+CREATE FUNCTION bulk_rollback_results(results JSONB) RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'applied', FALSE,
+    'results', COALESCE(
+      (SELECT jsonb_agg(r - 'todo' ORDER BY ordinality) FROM jsonb_array_elements(results) WITH ORDINALITY AS t(r, ordinality)),
+      '[]'::jsonb
+    )
+  )
+$$;
+
+-- items: [{ "title": text, "category_id": uuid | null }]
+CREATE FUNCTION bulk_add_todos(items JSONB) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  item JSONB;
+  idx INT := 0;
+  results JSONB := '[]'::jsonb;
+  failed BOOLEAN := FALSE;
+  new_todo todos;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF jsonb_typeof(items) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'items must be a JSON array';
+  END IF;
+  IF jsonb_array_length(items) > 500 THEN
+    RAISE EXCEPTION 'At most 500 items per call';
+  END IF;
+
+  BEGIN
+    FOR item IN SELECT value FROM jsonb_array_elements(items) LOOP
+      BEGIN
+        IF COALESCE(btrim(item->>'title'), '') = '' THEN
+          RAISE EXCEPTION 'title is required';
+        END IF;
+        IF item->>'category_id' IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM categories WHERE id = (item->>'category_id')::uuid AND user_id = uid) THEN
+          RAISE EXCEPTION 'category % not found', item->>'category_id';
+        END IF;
+
+        INSERT INTO todos (title, category_id, user_id)
+        VALUES (item->>'title', (item->>'category_id')::uuid, uid)
+        RETURNING * INTO new_todo;
+
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', TRUE, 'todo', to_jsonb(new_todo)));
+      EXCEPTION WHEN OTHERS THEN
+        failed := TRUE;
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', FALSE, 'error', SQLERRM));
+      END;
+      idx := idx + 1;
+    END LOOP;
+
+    IF failed THEN
+      RAISE EXCEPTION 'bulk_rollback';
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM <> 'bulk_rollback' THEN
+      RAISE;
+    END IF;
+    RETURN bulk_rollback_results(results);
+  END;
+
+  RETURN jsonb_build_object('applied', TRUE, 'results', results);
+END;
+$$;
+
+-- items: [{ "id": uuid, "title"?: text, "completed"?: boolean, "category_id"?: uuid | null }]
+-- Omitted fields are left unchanged; "category_id": null removes the category.
+CREATE FUNCTION bulk_update_todos(items JSONB) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  item JSONB;
+  idx INT := 0;
+  results JSONB := '[]'::jsonb;
+  failed BOOLEAN := FALSE;
+  updated todos;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF jsonb_typeof(items) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'items must be a JSON array';
+  END IF;
+  IF jsonb_array_length(items) > 500 THEN
+    RAISE EXCEPTION 'At most 500 items per call';
+  END IF;
+
+  BEGIN
+    FOR item IN SELECT value FROM jsonb_array_elements(items) LOOP
+      BEGIN
+        IF item->>'id' IS NULL THEN
+          RAISE EXCEPTION 'id is required';
+        END IF;
+        IF item ? 'title' AND COALESCE(btrim(item->>'title'), '') = '' THEN
+          RAISE EXCEPTION 'title cannot be empty';
+        END IF;
+        IF item->>'category_id' IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM categories WHERE id = (item->>'category_id')::uuid AND user_id = uid) THEN
+          RAISE EXCEPTION 'category % not found', item->>'category_id';
+        END IF;
+
+        UPDATE todos SET
+          title = CASE WHEN item ? 'title' THEN item->>'title' ELSE title END,
+          completed = CASE WHEN item ? 'completed' THEN (item->>'completed')::boolean ELSE completed END,
+          category_id = CASE WHEN item ? 'category_id' THEN (item->>'category_id')::uuid ELSE category_id END
+        WHERE id = (item->>'id')::uuid AND user_id = uid
+        RETURNING * INTO updated;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'todo % not found', item->>'id';
+        END IF;
+
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', TRUE, 'todo', to_jsonb(updated)));
+      EXCEPTION WHEN OTHERS THEN
+        failed := TRUE;
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', FALSE, 'error', SQLERRM));
+      END;
+      idx := idx + 1;
+    END LOOP;
+
+    IF failed THEN
+      RAISE EXCEPTION 'bulk_rollback';
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM <> 'bulk_rollback' THEN
+      RAISE;
+    END IF;
+    RETURN bulk_rollback_results(results);
+  END;
+
+  RETURN jsonb_build_object('applied', TRUE, 'results', results);
+END;
+$$;
+
+-- ids: todo IDs to delete
+CREATE FUNCTION bulk_delete_todos(ids UUID[]) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  todo_id UUID;
+  idx INT := 0;
+  results JSONB := '[]'::jsonb;
+  failed BOOLEAN := FALSE;
+  deleted todos;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF COALESCE(array_length(ids, 1), 0) > 500 THEN
+    RAISE EXCEPTION 'At most 500 items per call';
+  END IF;
+
+  BEGIN
+    FOREACH todo_id IN ARRAY COALESCE(ids, '{}') LOOP
+      BEGIN
+        DELETE FROM todos
+        WHERE id = todo_id AND user_id = uid
+        RETURNING * INTO deleted;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'todo % not found', todo_id;
+        END IF;
+
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', TRUE, 'todo', to_jsonb(deleted)));
+      EXCEPTION WHEN OTHERS THEN
+        failed := TRUE;
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', FALSE, 'error', SQLERRM));
+      END;
+      idx := idx + 1;
+    END LOOP;
+
+    IF failed THEN
+      RAISE EXCEPTION 'bulk_rollback';
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM <> 'bulk_rollback' THEN
+      RAISE;
+    END IF;
+    RETURN bulk_rollback_results(results);
+  END;
+
+  RETURN jsonb_build_object('applied', TRUE, 'results', results);
+END;
+$$;
+
+-- Only signed-in users may call the bulk functions
+REVOKE EXECUTE ON FUNCTION bulk_add_todos(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION bulk_update_todos(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION bulk_delete_todos(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION bulk_add_todos(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_update_todos(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_delete_todos(UUID[]) TO authenticated;
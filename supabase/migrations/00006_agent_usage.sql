@@ -0,0 +1,87 @@
+-- Usage and cost accounting for agent sessions.
+-- The worker writes every row with the service role: 'turn' rows carry the token usage
+-- and cost the Agent SDK reports for each result, 'sandbox' rows the lifetime of a
+-- container. Users can read their own rows but not write them directly; turn rows are
+-- reported by the agent in the user's sandbox, so the worker can only check that they
+-- are plausible.
+
+CREATE TABLE agent_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('turn', 'sandbox')),
+  -- turn rows
+  model TEXT,
+  input_tokens BIGINT NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens BIGINT NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  cache_read_input_tokens BIGINT NOT NULL DEFAULT 0 CHECK (cache_read_input_tokens >= 0),
+  cache_creation_input_tokens BIGINT NOT NULL DEFAULT 0 CHECK (cache_creation_input_tokens >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),
+  -- sandbox rows
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_agent_usage_user_created ON agent_usage(user_id, created_at);
+CREATE INDEX idx_agent_usage_session_id ON agent_usage(session_id);
+
+ALTER TABLE agent_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own agent usage" ON agent_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Optional monthly spending limit per user, set by operators with the service role.
+-- Users without a row have no limit.
+CREATE TABLE agent_budgets (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  monthly_limit_usd NUMERIC(12, 2) NOT NULL CHECK (monthly_limit_usd >= 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE agent_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own agent budget" ON agent_budgets
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Daily and per-session totals for the usage view; security_invoker keeps RLS in force
+CREATE VIEW agent_usage_daily WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  (created_at AT TIME ZONE 'UTC')::date AS day,
+  COUNT(*) FILTER (WHERE kind = 'turn') AS turns,
+  SUM(input_tokens + cache_read_input_tokens + cache_creation_input_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens,
+  SUM(cost_usd) AS cost_usd,
+  COALESCE(SUM(EXTRACT(EPOCH FROM stopped_at - started_at)) FILTER (WHERE kind = 'sandbox'), 0) AS sandbox_seconds
+FROM agent_usage
+GROUP BY user_id, day;
+
+CREATE VIEW agent_usage_sessions WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  session_id,
+  MIN(created_at) AS first_used_at,
+  MAX(created_at) AS last_used_at,
+  COUNT(*) FILTER (WHERE kind = 'turn') AS turns,
+  SUM(input_tokens + cache_read_input_tokens + cache_creation_input_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens,
+  SUM(cost_usd) AS cost_usd,
+  COALESCE(SUM(EXTRACT(EPOCH FROM stopped_at - started_at)) FILTER (WHERE kind = 'sandbox'), 0) AS sandbox_seconds
+FROM agent_usage
+GROUP BY user_id, session_id;
+
+-- Spend so far this calendar month (UTC), used by the worker to enforce budgets
+CREATE FUNCTION agent_month_cost(p_user_id UUID) RETURNS NUMERIC
+LANGUAGE sql STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM agent_usage
+  WHERE user_id = p_user_id
+    AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+$$;
+
+REVOKE EXECUTE ON FUNCTION agent_month_cost(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION agent_month_cost(UUID) TO service_role;
@@ -0,0 +1,153 @@
+-- Audit log of every change the agent makes to todos and categories, with per-session undo.
+-- The agent's Supabase client sends its session ID in an x-agent-session-id header and each
+-- tool names itself in x-agent-tool; triggers record a before/after snapshot of every row a
+-- request with those headers touches. Changes made from the app carry no such header and
+-- aren't logged. Users can read their own entries but only the triggers write them.
+
+CREATE TABLE agent_audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL,
+  tool TEXT,
+  table_name TEXT NOT NULL CHECK (table_name IN ('todos', 'categories')),
+  row_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+  before JSONB, -- NULL for inserts
+  after JSONB, -- NULL for deletes
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_agent_audit_log_session ON agent_audit_log(user_id, session_id, id);
+
+ALTER TABLE agent_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own agent audit log" ON agent_audit_log
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE FUNCTION record_agent_change() RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers JSONB := COALESCE(NULLIF(current_setting('request.headers', TRUE), ''), '{}')::jsonb;
+  agent_session TEXT := headers->>'x-agent-session-id';
+BEGIN
+  IF agent_session IS NULL OR auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE' AND to_jsonb(OLD) = to_jsonb(NEW) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO agent_audit_log (user_id, session_id, tool, table_name, row_id, operation, before, after)
+  VALUES (
+    auth.uid(),
+    agent_session::uuid,
+    headers->>'x-agent-tool',
+    TG_TABLE_NAME,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    lower(TG_OP),
+    CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END,
+    CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- AFTER triggers fire in name order, so the foreign key triggers (RI_ConstraintTrigger_*)
+-- run first: a deleted category's todos are logged losing their category before the
+-- category itself is logged as deleted, and undo (newest first) puts the category back
+-- before pointing the todos at it again.
+CREATE TRIGGER todos_agent_audit
+  AFTER INSERT OR UPDATE OR DELETE ON todos
+  FOR EACH ROW EXECUTE FUNCTION record_agent_change();
+
+CREATE TRIGGER categories_agent_audit
+  AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH ROW EXECUTE FUNCTION record_agent_change();
+
+-- Revert a session's changes, newest first. An entry is only reverted if its row is still
+-- exactly as the agent left it (or, for a delete, still absent); otherwise it is reported
+-- as a conflict and left alone, and so are any earlier entries for the same row. Reverted
+-- entries are marked undone, so calling this again only retries the conflicts.
+-- Returns { undone: count, conflicts: [{ id, tool, table_name, row_id, operation, reason }] }.
+CREATE FUNCTION undo_agent_session(p_session_id UUID) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  entry agent_audit_log;
+  current_row JSONB;
+  column_list TEXT;
+  reason TEXT;
+  undone INT := 0;
+  conflicts JSONB := '[]'::jsonb;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM agent_audit_log
+    WHERE user_id = uid AND session_id = p_session_id AND undone_at IS NULL
+    ORDER BY id DESC
+    FOR UPDATE
+  LOOP
+    -- table_name is limited to todos and categories by its CHECK constraint
+    EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND user_id = $2', entry.table_name)
+      INTO current_row
+      USING entry.row_id, uid;
+
+    reason := CASE
+      WHEN entry.operation = 'delete' AND current_row IS NOT NULL THEN 'recreated since'
+      WHEN entry.operation <> 'delete' AND current_row IS NULL THEN 'deleted since'
+      WHEN entry.operation <> 'delete' AND current_row <> entry.after THEN 'edited since'
+    END;
+
+    IF reason IS NULL THEN
+      BEGIN
+        IF entry.operation = 'insert' THEN
+          EXECUTE format('DELETE FROM %I WHERE id = $1 AND user_id = $2', entry.table_name)
+            USING entry.row_id, uid;
+        ELSIF entry.operation = 'delete' THEN
+          EXECUTE format('INSERT INTO %I SELECT * FROM jsonb_populate_record(NULL::%I, $1)', entry.table_name, entry.table_name)
+            USING entry.before;
+        ELSE
+          SELECT string_agg(quote_ident(key), ', ') INTO column_list
+          FROM jsonb_object_keys(entry.before) AS key
+          WHERE key NOT IN ('id', 'user_id');
+          EXECUTE format(
+            'UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE id = $2 AND user_id = $3',
+            entry.table_name, column_list, column_list, entry.table_name
+          ) USING entry.before, entry.row_id, uid;
+        END IF;
+
+        UPDATE agent_audit_log SET undone_at = NOW() WHERE id = entry.id;
+        undone := undone + 1;
+      EXCEPTION WHEN OTHERS THEN
+        reason := SQLERRM;
+      END;
+    END IF;
+
+    IF reason IS NOT NULL THEN
+      conflicts := conflicts || jsonb_build_array(jsonb_build_object(
+        'id', entry.id,
+        'tool', entry.tool,
+        'table_name', entry.table_name,
+        'row_id', entry.row_id,
+        'operation', entry.operation,
+        'reason', reason
+      ));
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('undone', undone, 'conflicts', conflicts);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION undo_agent_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION undo_agent_session(UUID) TO authenticated;
@@ -0,0 +1,136 @@
+-- Apply the change set a dry-run prompt proposed (see ProposedChange in shared/protocol.ts).
+-- Runs as the caller so RLS still applies, and is all-or-nothing like the bulk functions:
+-- every change is attempted in order, and if any fails the whole set is rolled back. An
+-- update or delete fails if its row no longer matches the snapshot the plan took, so a
+-- set proposed against stale data is never applied over newer edits. The app sends the
+-- dry run's session ID in x-agent-session-id, so the applied changes land in the audit log
+-- under that session and can be undone like any other agent change.
+
+-- changes: [{ "table": "todos" | "categories", "operation": "insert" | "update" | "delete",
+--             "id": uuid, "before": object | null, "after": object | null, "tool": text }]
+CREATE FUNCTION apply_change_set(changes JSONB) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  change JSONB;
+  idx INT := 0;
+  results JSONB := '[]'::jsonb;
+  failed BOOLEAN := FALSE;
+  target UUID;
+  fields JSONB;
+  allowed TEXT[];
+  current_row JSONB;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF jsonb_typeof(changes) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'changes must be a JSON array';
+  END IF;
+  IF jsonb_array_length(changes) > 500 THEN
+    RAISE EXCEPTION 'At most 500 changes per call';
+  END IF;
+
+  BEGIN
+    FOR change IN SELECT value FROM jsonb_array_elements(changes) LOOP
+      BEGIN
+        target := (change->>'id')::uuid;
+        fields := COALESCE(change->'after', '{}'::jsonb);
+        allowed := CASE change->>'table'
+          WHEN 'todos' THEN ARRAY['title', 'completed', 'category_id']
+          WHEN 'categories' THEN ARRAY['name']
+        END;
+
+        IF target IS NULL THEN
+          RAISE EXCEPTION 'id is required';
+        END IF;
+        IF allowed IS NULL THEN
+          RAISE EXCEPTION 'unknown table %', change->>'table';
+        END IF;
+        IF change->>'operation' IS NULL OR change->>'operation' NOT IN ('insert', 'update', 'delete') THEN
+          RAISE EXCEPTION 'unknown operation %', change->>'operation';
+        END IF;
+        IF EXISTS (SELECT 1 FROM jsonb_object_keys(fields) AS key WHERE key <> ALL (allowed)) THEN
+          RAISE EXCEPTION 'cannot set % on %', (SELECT string_agg(key, ', ') FROM jsonb_object_keys(fields) AS key WHERE key <> ALL (allowed)), change->>'table';
+        END IF;
+        IF fields->>'category_id' IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM categories WHERE id = (fields->>'category_id')::uuid AND user_id = uid) THEN
+          RAISE EXCEPTION 'category % not found', fields->>'category_id';
+        END IF;
+
+        -- Updates and deletes only go ahead if the row is still as the plan saw it
+        IF change->>'operation' <> 'insert' THEN
+          IF change->>'table' = 'todos' THEN
+            SELECT to_jsonb(t) INTO current_row FROM todos t WHERE id = target AND user_id = uid;
+          ELSE
+            SELECT to_jsonb(c) INTO current_row FROM categories c WHERE id = target AND user_id = uid;
+          END IF;
+          IF current_row IS NULL THEN
+            RAISE EXCEPTION '% % no longer exists', change->>'table', target;
+          END IF;
+          IF NOT current_row @> COALESCE(change->'before', '{}'::jsonb) THEN
+            RAISE EXCEPTION '% % has changed since the plan was made', change->>'table', target;
+          END IF;
+        END IF;
+
+        IF change->>'table' = 'todos' THEN
+          IF change->>'operation' IN ('insert', 'update') AND fields ? 'title' AND COALESCE(btrim(fields->>'title'), '') = '' THEN
+            RAISE EXCEPTION 'title cannot be empty';
+          END IF;
+
+          IF change->>'operation' = 'insert' THEN
+            IF NOT fields ? 'title' THEN
+              RAISE EXCEPTION 'title is required';
+            END IF;
+            INSERT INTO todos (id, title, completed, category_id, user_id)
+            VALUES (target, fields->>'title', COALESCE((fields->>'completed')::boolean, FALSE), (fields->>'category_id')::uuid, uid);
+          ELSIF change->>'operation' = 'update' THEN
+            UPDATE todos SET
+              title = CASE WHEN fields ? 'title' THEN fields->>'title' ELSE title END,
+              completed = CASE WHEN fields ? 'completed' THEN (fields->>'completed')::boolean ELSE completed END,
+              category_id = CASE WHEN fields ? 'category_id' THEN (fields->>'category_id')::uuid ELSE category_id END
+            WHERE id = target AND user_id = uid;
+          ELSE
+            DELETE FROM todos WHERE id = target AND user_id = uid;
+          END IF;
+        ELSE
+          IF change->>'operation' IN ('insert', 'update') AND COALESCE(btrim(fields->>'name'), '') = '' THEN
+            RAISE EXCEPTION 'name cannot be empty';
+          END IF;
+
+          IF change->>'operation' = 'insert' THEN
+            INSERT INTO categories (id, name, user_id) VALUES (target, fields->>'name', uid);
+          ELSIF change->>'operation' = 'update' THEN
+            UPDATE categories SET name = fields->>'name' WHERE id = target AND user_id = uid;
+          ELSE
+            DELETE FROM categories WHERE id = target AND user_id = uid;
+          END IF;
+        END IF;
+
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', TRUE));
+      EXCEPTION WHEN OTHERS THEN
+        failed := TRUE;
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', FALSE, 'error', SQLERRM));
+      END;
+      idx := idx + 1;
+    END LOOP;
+
+    IF failed THEN
+      RAISE EXCEPTION 'bulk_rollback';
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM <> 'bulk_rollback' THEN
+      RAISE;
+    END IF;
+    RETURN bulk_rollback_results(results);
+  END;
+
+  RETURN jsonb_build_object('applied', TRUE, 'results', results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_change_set(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION apply_change_set(JSONB) TO authenticated;
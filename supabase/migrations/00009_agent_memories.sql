@@ -0,0 +1,27 @@
+-- Facts and preferences the agent remembers about a user across sessions
+-- ("I shop on Saturdays", "put work stuff under Job"). The agent manages them with its
+-- Remember, Recall and Forget tools and sees a summary at the start of every session;
+-- users can review and delete them in the app.
+
+CREATE TABLE agent_memories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(btrim(content)) BETWEEN 1 AND 500),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_agent_memories_user_created ON agent_memories(user_id, created_at);
+
+ALTER TABLE agent_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own agent memories" ON agent_memories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own agent memories" ON agent_memories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own agent memories" ON agent_memories
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- So the app's memory panel picks up what the agent remembers mid-session
+ALTER PUBLICATION supabase_realtime ADD TABLE agent_memories;
@@ -0,0 +1,90 @@
+-- Fix undo_agent_session (00007) to leave a row alone once one of its entries conflicts.
+-- Reverting newest first, an older entry can still match the row after a newer one
+-- conflicted: the agent sets a title X -> Y -> Z and the user edits it back to Y, so
+-- undoing Y -> Z conflicts but X -> Y would then put X back over the user's edit. Now
+-- every earlier entry for a conflicted row is reported as a conflict too.
+
+-- Revert a session's changes, newest first. An entry is only reverted if its row is still
+-- exactly as the agent left it (or, for a delete, still absent); otherwise it is reported
+-- as a conflict and left alone, and so are any earlier entries for the same row. Reverted
+-- entries are marked undone, so calling this again only retries the conflicts.
+-- Returns { undone: count, conflicts: [{ id, tool, table_name, row_id, operation, reason }] }.
+CREATE OR REPLACE FUNCTION undo_agent_session(p_session_id UUID) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  entry agent_audit_log;
+  current_row JSONB;
+  column_list TEXT;
+  reason TEXT;
+  undone INT := 0;
+  conflicts JSONB := '[]'::jsonb;
+  -- Rows with a conflict so far, as table_name:row_id
+  conflicted_rows TEXT[] := '{}';
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM agent_audit_log
+    WHERE user_id = uid AND session_id = p_session_id AND undone_at IS NULL
+    ORDER BY id DESC
+    FOR UPDATE
+  LOOP
+    -- table_name is limited to todos and categories by its CHECK constraint
+    EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND user_id = $2', entry.table_name)
+      INTO current_row
+      USING entry.row_id, uid;
+
+    reason := CASE
+      WHEN entry.table_name || ':' || entry.row_id = ANY (conflicted_rows) THEN 'a later change to it was not undone'
+      WHEN entry.operation = 'delete' AND current_row IS NOT NULL THEN 'recreated since'
+      WHEN entry.operation <> 'delete' AND current_row IS NULL THEN 'deleted since'
+      WHEN entry.operation <> 'delete' AND current_row <> entry.after THEN 'edited since'
+    END;
+
+    IF reason IS NULL THEN
+      BEGIN
+        IF entry.operation = 'insert' THEN
+          EXECUTE format('DELETE FROM %I WHERE id = $1 AND user_id = $2', entry.table_name)
+            USING entry.row_id, uid;
+        ELSIF entry.operation = 'delete' THEN
+          EXECUTE format('INSERT INTO %I SELECT * FROM jsonb_populate_record(NULL::%I, $1)', entry.table_name, entry.table_name)
+            USING entry.before;
+        ELSE
+          SELECT string_agg(quote_ident(key), ', ') INTO column_list
+          FROM jsonb_object_keys(entry.before) AS key
+          WHERE key NOT IN ('id', 'user_id');
+          EXECUTE format(
+            'UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE id = $2 AND user_id = $3',
+            entry.table_name, column_list, column_list, entry.table_name
+          ) USING entry.before, entry.row_id, uid;
+        END IF;
+
+        UPDATE agent_audit_log SET undone_at = NOW() WHERE id = entry.id;
+        undone := undone + 1;
+      EXCEPTION WHEN OTHERS THEN
+        reason := SQLERRM;
+      END;
+    END IF;
+
+    IF reason IS NOT NULL THEN
+      conflicted_rows := conflicted_rows || (entry.table_name || ':' || entry.row_id);
+      conflicts := conflicts || jsonb_build_array(jsonb_build_object(
+        'id', entry.id,
+        'tool', entry.tool,
+        'table_name', entry.table_name,
+        'row_id', entry.row_id,
+        'operation', entry.operation,
+        'reason', reason
+      ));
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('undone', undone, 'conflicts', conflicts);
+END;
+$$;
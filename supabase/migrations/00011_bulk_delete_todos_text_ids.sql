@@ -0,0 +1,62 @@
+-- Take bulk_delete_todos' IDs as text and cast each one inside its own item block, like
+-- bulk_add_todos and bulk_update_todos do. With UUID[] a single malformed ID failed the cast
+-- for the whole call with a raw Postgres error instead of a per-item result.
+
+DROP FUNCTION bulk_delete_todos(UUID[]);
+
+-- ids: todo IDs to delete
+CREATE FUNCTION bulk_delete_todos(ids TEXT[]) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  uid UUID := auth.uid();
+  raw_id TEXT;
+  idx INT := 0;
+  results JSONB := '[]'::jsonb;
+  failed BOOLEAN := FALSE;
+  deleted todos;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF COALESCE(array_length(ids, 1), 0) > 500 THEN
+    RAISE EXCEPTION 'At most 500 items per call';
+  END IF;
+
+  BEGIN
+    FOREACH raw_id IN ARRAY COALESCE(ids, '{}') LOOP
+      BEGIN
+        DELETE FROM todos
+        WHERE id = raw_id::uuid AND user_id = uid
+        RETURNING * INTO deleted;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'todo % not found', raw_id;
+        END IF;
+
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', TRUE, 'todo', to_jsonb(deleted)));
+      EXCEPTION WHEN OTHERS THEN
+        failed := TRUE;
+        results := results || jsonb_build_array(jsonb_build_object('index', idx, 'ok', FALSE, 'error', SQLERRM));
+      END;
+      idx := idx + 1;
+    END LOOP;
+
+    IF failed THEN
+      RAISE EXCEPTION 'bulk_rollback';
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM <> 'bulk_rollback' THEN
+      RAISE;
+    END IF;
+    RETURN bulk_rollback_results(results);
+  END;
+
+  RETURN jsonb_build_object('applied', TRUE, 'results', results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bulk_delete_todos(TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION bulk_delete_todos(TEXT[]) TO authenticated;
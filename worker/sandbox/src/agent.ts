@@ -1,33 +1,89 @@
 // Unified agent script - handles both interactive and non-interactive modes
 // Config passed via AGENT_CONFIG env var as JSON:
-// { mode, sessionId, userId, accessToken, supabaseUrl, supabaseKey, prompt? }
+// { mode, sessionId, channelName, userId, accessToken, supabaseUrl, supabaseKey, workerUrl, prompt?, outputSchema?,
+//   dryRun?, timezone?, locale?, model?, maxTurns?, systemPromptAppend?, allowedTools? }
 
 import { query, tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 import { AgentChannel } from './channel.js';
-import { createMcpServer } from './tools.js';
+import { createMcpServer, AGENT_SESSION_HEADER } from './tools.js';
+import { TranscriptWriter } from './transcript.js';
+import { ConversationStore } from './conversation.js';
+import { AssistantStream } from './streaming.js';
+import { PermissionGate, DANGEROUS_TOOLS, type PermissionPolicy } from './permissions.js';
+import { RunReport } from './report.js';
+import { ChangePlan } from './plan.js';
+import { buildSystemPrompt } from './prompt.js';
+import { UsageReporter } from './usage.js';
+import { ContextCompactor } from './compaction.js';
 import {
   formatReady,
   formatAssistantMessage,
   formatToolUse,
+  formatToolResult,
   formatSlashOutput,
-  formatError,
-  formatComplete
+  formatTurnComplete,
+  formatError
 } from './messages.js';
 
 interface AgentConfig {
   mode: 'interactive' | 'non-interactive';
   sessionId: string;
+  channelName: string; // Private Realtime channel shared with the frontend
   userId: string;
   accessToken: string;
+  usageToken: string; // Authenticates usage reports to the worker
   supabaseUrl: string;
   supabaseKey: string;
+  workerUrl: string; // Used to persist the session transcript
   prompt?: string; // Required for non-interactive mode
+  permissionPolicy?: PermissionPolicy; // How dangerous tools are gated (default: ask)
+  resume?: boolean; // Continue the session's stored conversation (interactive mode)
+  outputSchema?: Record<string, unknown>; // JSON Schema the final answer must match (non-interactive mode)
+  dryRun?: boolean; // Record todo and category writes as proposed changes instead of making them (non-interactive mode)
+  timezone?: string; // The user's IANA time zone, for dates in the system prompt
+  locale?: string; // The user's locale
+  // Overrides, already checked against the worker's per-environment policy
+  model?: string;
+  maxTurns?: number;
+  systemPromptAppend?: string;
+  allowedTools?: string[]; // subset of TOOLS
 }
 
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+const DEFAULT_MAX_TURNS = 100;
+
+const TOOLS = [
+  'mcp__todos__ListTodos',
+  'mcp__todos__AddTodo',
+  'mcp__todos__DeleteTodo',
+  'mcp__todos__ToggleTodo',
+  'mcp__todos__UpdateTodo',
+  'mcp__todos__BulkAddTodos',
+  'mcp__todos__BulkUpdateTodos',
+  'mcp__todos__BulkDeleteTodos',
+  'mcp__todos__ListCategories',
+  'mcp__todos__AddCategory',
+  'mcp__todos__RenameCategory',
+  'mcp__todos__DeleteCategory',
+  'mcp__todos__Remember',
+  'mcp__todos__Recall',
+  'mcp__todos__Forget',
+  'Skill', 'Read', 'Write', 'Edit', 'WebSearch'
+];
+
 const config: AgentConfig = JSON.parse(process.env.AGENT_CONFIG!);
 
+// Flatten tool_result content (a string or a list of content blocks) to text
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => block.type === 'text' ? block.text : `[${block.type}]`)
+    .join('\n');
+}
+
 async function main() {
   const isInteractive = config.mode === 'interactive';
   console.log(`Starting ${config.mode} agent for session:`, config.sessionId);
@@ -37,88 +93,187 @@ async function main() {
     process.exit(1);
   }
 
+  // Everything sent or received on the channel is appended to the session transcript
+  const transcript = new TranscriptWriter(config.workerUrl, config.sessionId, config.accessToken);
+
+  // Interactive conversations outlive the sandbox: restore the last one if asked to
+  const conversations = new ConversationStore(config.workerUrl, config.sessionId, config.accessToken);
+  let claudeSessionId = isInteractive && config.resume ? await conversations.restore() : null;
+  const resumeFrom = claudeSessionId;
+
   // Connect to Supabase channel
   const channel = new AgentChannel(
     config.supabaseUrl,
     config.supabaseKey,
-    config.sessionId,
-    config.accessToken
+    config.channelName,
+    config.accessToken,
+    transcript
   );
 
   await channel.connect();
-  console.log('Connected to channel:', config.sessionId);
+  console.log('Connected to channel:', config.channelName);
 
   // Send ready message
-  await channel.send(formatReady());
+  await channel.send(formatReady(!!resumeFrom));
+
+  // The prompt is the only user message in non-interactive mode
+  if (!isInteractive) {
+    transcript.append('user_message', { content: config.prompt });
+  }
 
-  // Create Supabase client for database operations
+  // Create Supabase client for database operations; the session header ties its writes to this session in the audit log
   const userSupabase = createClient(config.supabaseUrl, config.supabaseKey, {
     global: {
       headers: {
-        Authorization: `Bearer ${config.accessToken}`
+        Authorization: `Bearer ${config.accessToken}`,
+        [AGENT_SESSION_HEADER]: config.sessionId
       }
     }
   });
 
+  // A dry run's tools read real data but only record the writes they would make
+  const plan = !isInteractive && config.dryRun ? new ChangePlan() : null;
+
   // Create MCP server with tools
   const mcpServer = await createMcpServer(userSupabase, config.userId, {
     tool,
     createSdkMcpServer,
     z
-  });
+  }, plan);
 
   console.log(`Starting query with ${isInteractive ? 'messageGenerator' : 'static prompt'}...`);
 
+  // Interactive turns are interrupted through the query; a static prompt can only be aborted
+  const abortController = new AbortController();
+  let interrupted = false;
+
+  // The channel drops now and then and is rejoined; if that keeps failing nobody can see or steer the session
+  channel.onLost(() => {
+    console.error('Lost the channel, stopping the query');
+    abortController.abort();
+  });
+
+  // Streams text deltas while the model is still writing
+  const stream = new AssistantStream(message => channel.send(message));
+
+  // With an output schema the SDK validates the final answer and asks the model to retry if it doesn't match
+  const outputSchema = isInteractive ? undefined : config.outputSchema;
+
+  // The worker always sends the tools its policy allows, narrowed by the request; dangerous tools are left out of allowedTools so every call reaches the gate.
+  // The SDK's StructuredOutput tool is how the final answer is delivered when there is a schema.
+  const tools = [
+    ...(config.allowedTools ? TOOLS.filter(name => config.allowedTools!.includes(name)) : TOOLS),
+    ...(outputSchema ? ['StructuredOutput'] : [])
+  ];
+  // Nothing a dry run does is destructive: its proposed changes are reviewed before they are applied
+  const permissions = new PermissionGate(channel, config.permissionPolicy ?? 'ask', tools, plan ? [] : DANGEROUS_TOOLS);
+  channel.onPermissionResponse((requestId, approved) => permissions.respond(requestId, approved));
+
+  // Figures for the complete message that ends a non-interactive run
+  const report = new RunReport(plan);
+
+  // Every result's tokens and cost are recorded against the user
+  const model = config.model ?? DEFAULT_MODEL;
+  const usage = new UsageReporter(config.workerUrl, config.sessionId, config.usageToken, model);
+
+  // Long chats are summarized before they fill the context window
+  const compactor = new ContextCompactor();
+
+  // Instructions plus a snapshot of the user's data, then whatever the request adds
+  const systemPrompt = await buildSystemPrompt(userSupabase, {
+    timezone: config.timezone,
+    locale: config.locale,
+    outputSchema: !!outputSchema,
+    dryRun: !!plan,
+    append: config.systemPromptAppend
+  });
+
   try {
     const result = query({
-      prompt: isInteractive ? channel.messageGenerator() : config.prompt!,
+      prompt: isInteractive ? compactor.messages(channel.messageGenerator()) : config.prompt!,
       options: {
-        model: 'claude-sonnet-4-20250514',
-        systemPrompt: `You are a helpful assistant that can manage todos for the current user.
-Use the ListTodos, AddTodo, DeleteTodo, and ToggleTodo tools to help users manage their tasks.
-When listing todos, present them in a readable format.
-Respond concisely and helpfully.`,
+        abortController,
+        includePartialMessages: true,
+        model,
+        systemPrompt,
         mcpServers: {
           todos: mcpServer
         },
-        allowedTools: [
-          'mcp__todos__ListTodos',
-          'mcp__todos__AddTodo',
-          'mcp__todos__DeleteTodo',
-          'mcp__todos__ToggleTodo',
-          'Skill', 'Read', 'Write', 'Edit', 'WebSearch'
-        ],
-        maxTurns: 100
+        allowedTools: tools.filter(name => !DANGEROUS_TOOLS.includes(name)),
+        canUseTool: permissions.canUseTool,
+        maxTurns: config.maxTurns ?? DEFAULT_MAX_TURNS,
+        ...(resumeFrom && { resume: resumeFrom }),
+        ...(outputSchema && { outputFormat: { type: 'json_schema' as const, schema: outputSchema } })
+      }
+    });
+
+    channel.onInterrupt(() => {
+      interrupted = true;
+      if (isInteractive) {
+        result.interrupt().catch(err => console.error('Interrupt failed:', err));
+      } else {
+        abortController.abort();
       }
     });
 
     // Process responses as they stream in
     for await (const msg of result) {
+      if (msg.type === 'stream_event') {
+        stream.handleEvent(msg.event);
+        continue;
+      }
+
       console.log('Agent message:', msg.type, (msg as { subtype?: string }).subtype || '');
 
+      // The SDK announces its session id when the conversation starts
+      if (msg.type === 'system' && msg.subtype === 'init') {
+        claudeSessionId = msg.session_id;
+      }
+
+      // The conversation so far was replaced by a summary, on the compactor's request, the SDK's own or the user's /compact
+      if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
+        const { trigger, pre_tokens: preTokens } = msg.compact_metadata;
+        console.log('Conversation compacted from', preTokens, 'tokens');
+        await channel.send(compactor.compacted(trigger, preTokens));
+      }
+
       if (msg.type === 'assistant') {
+        // Deliver outstanding deltas before the complete message replaces them
+        await stream.flush();
+        compactor.recordUsage(msg.message.usage);
         const content = (msg as { message?: { content?: unknown } }).message?.content;
         if (Array.isArray(content)) {
           for (const block of content) {
             if (block.type === 'tool_use') {
               console.log('Sending tool_use:', block.name);
-              await channel.send(formatToolUse(block.name, block.input));
+              report.recordToolUse(block.name);
+              await channel.send(formatToolUse(block.name, block.input, block.id));
             } else if (block.type === 'text' && block.text) {
               console.log('Sending assistant message');
-              await channel.send(formatAssistantMessage(block.text));
+              compactor.recordReply(block.text);
+              await channel.send(formatAssistantMessage(block.text, stream.nextMessageId()));
             }
           }
         } else if (typeof content === 'string' && content) {
-          await channel.send(formatAssistantMessage(content));
+          compactor.recordReply(content);
+          await channel.send(formatAssistantMessage(content, stream.nextMessageId()));
         }
       }
 
-      // Check for slash command output in user messages
+      // Check user messages for tool results and slash command output
       if (msg.type === 'user') {
         const content = (msg as { message?: { content?: unknown } }).message?.content;
-        if (typeof content === 'string') {
+        if (Array.isArray(content)) {
+          for (const block of content) {
+            if (block.type === 'tool_result') {
+              console.log('Sending tool_result:', block.tool_use_id);
+              await channel.send(formatToolResult(block.tool_use_id, !!block.is_error, toolResultText(block.content)));
+            }
+          }
+        } else if (typeof content === 'string') {
           const match = content.match(/<local-command-stdout>([\s\S]*?)<\/local-command-stdout>/);
-          if (match) {
+          // The divider stands for the output of a compaction the user didn't ask for
+          if (match && !compactor.inProgress) {
             console.log('Sending slash_output');
             await channel.send(formatSlashOutput(match[1].trim()));
           }
@@ -127,26 +282,48 @@ Respond concisely and helpfully.`,
 
       if (msg.type === 'result') {
         console.log('Query result received');
+        report.recordResult(msg);
+        await usage.report(msg);
+        await stream.flush();
+        stream.reset();
+        // In interactive mode each result ends a turn, except the compactor's: the user's message is answered next
+        if (isInteractive) {
+          if (!compactor.finishTurn()) {
+            await channel.send(formatTurnComplete(interrupted));
+            interrupted = false;
+          }
+          // Snapshot the conversation so a restarted sandbox can pick it up
+          if (claudeSessionId) {
+            await conversations.save(claudeSessionId);
+          }
+        }
       }
     }
 
-    // Non-interactive mode: send completion and exit
+    // Non-interactive mode: report how the run went and exit
     if (!isInteractive) {
       console.log('Query completed, sending complete message');
-      await channel.send(formatComplete('success'));
+      await channel.send(report.complete(report.resultStatus()));
     }
 
     console.log('Query session ended');
   } catch (err) {
-    console.error('Query error:', err);
-    await channel.send(formatError((err as Error).message || 'Query error'));
+    if (interrupted && !isInteractive) {
+      console.log('Query aborted by interrupt');
+      await channel.send(report.complete('interrupted'));
+    } else {
+      console.error('Query error:', err);
+      const message = channel.lost ? 'Lost the connection to the app' : (err as Error).message || 'Query error';
+      // A prompt run always ends with its report, failed or not
+      await channel.send(isInteractive ? formatError(message) : report.complete('error', message));
+    }
   } finally {
     await channel.disconnect();
 
-    // Non-interactive mode exits after completion
-    if (!isInteractive) {
+    // Non-interactive mode exits after completion, and a session that lost its channel has no one left to serve
+    if (!isInteractive || channel.lost) {
       console.log('Agent finished, exiting');
-      process.exit(0);
+      process.exit(channel.lost ? 1 : 0);
     }
   }
 }
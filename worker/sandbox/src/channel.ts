@@ -1,74 +1,310 @@
-import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, RealtimeChannel, type RealtimeChannelSendResponse } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
 import WebSocket from 'ws';
+import type { TranscriptWriter } from './transcript.js';
+import {
+  ClientMessageTypes,
+  MessageTypes,
+  formatReconnected,
+  parseClientMessage,
+  type AgentMessage,
+  type ClientMessage
+} from './messages.js';
 
 // Required: Supabase Realtime expects globalThis.WebSocket in Node.js
 (globalThis as unknown as { WebSocket: typeof WebSocket }).WebSocket = WebSocket;
 
-interface UserMessage {
-  content: string;
-}
+type UserMessage = Extract<ClientMessage, { type: 'user_message' }>;
+
+// Recent messages kept for clients that missed them
+const MAX_REPLAY_MESSAGES = 1000;
+
+// Rejoining a dropped channel: the delay doubles from the first up to the cap, then the agent gives up
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+// How long disconnect waits for a rejoin under way, so queued messages such as a prompt's complete get out
+const DISCONNECT_REJOIN_WAIT_MS = 15000;
 
 export class AgentChannel {
   private supabase: SupabaseClient;
   private channelName: string;
+  private accessToken: string;
   private channel: RealtimeChannel | null = null;
   private messageQueue: UserMessage[] = [];
   private resolveNext: (() => void) | null = null;
-  private connected = false;
+  private connected = false; // subscribed right now
+  private closed = false; // done for good: disconnected, or rejoining failed
+  private gaveUp = false; // closed because rejoining failed
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private rejoining: Promise<number> | null = null;
+  private lostHandler: (() => void) | null = null;
+  private transcript: TranscriptWriter | null;
+  private interruptHandler: (() => void) | null = null;
+  private permissionHandler: ((requestId: string, approved: boolean) => void) | null = null;
+
+  // Messages are numbered per agent process; the epoch tells clients when numbering restarts
+  private epoch = randomUUID();
+  private seq = 0;
+  private replayBuffer: AgentMessage[] = [];
+  // Numbered messages not yet broadcast, sent in order once the channel is up
+  private outbox: AgentMessage[] = [];
+  private flushing: Promise<void> | null = null;
 
-  constructor(supabaseUrl: string, supabaseKey: string, channelName: string, accessToken: string) {
+  constructor(
+    supabaseUrl: string,
+    supabaseKey: string,
+    channelName: string,
+    accessToken: string,
+    transcript: TranscriptWriter | null = null
+  ) {
     this.supabase = createClient(supabaseUrl, supabaseKey, {
       global: { headers: { Authorization: `Bearer ${accessToken}` } }
     });
     this.channelName = channelName;
+    this.accessToken = accessToken;
+    this.transcript = transcript;
   }
 
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.channel = this.supabase.channel(this.channelName, {
-        config: { broadcast: { ack: true, self: false } }
-      });
+    // Private channels are authorized by Realtime RLS using the user's token
+    await this.supabase.realtime.setAuth(this.accessToken);
+    try {
+      await this.subscribe();
+    } catch (err) {
+      console.error('Failed to join channel:', (err as Error).message);
+      if (!(await this.rejoin())) throw err;
+    }
+  }
 
-      // Listen for incoming messages from frontend
-      this.channel.on('broadcast', { event: 'user_message' }, (payload) => {
-        console.log('Received user_message:', payload.payload);
-        this.messageQueue.push(payload.payload as UserMessage);
-        if (this.resolveNext) {
-          this.resolveNext();
-          this.resolveNext = null;
+  // Join the channel; resolves once subscribed and rejects if this join fails
+  private subscribe(): Promise<void> {
+    const channel = this.supabase.channel(this.channelName, {
+      config: { private: true, broadcast: { ack: true, self: false } }
+    });
+    this.channel = channel;
+
+    // Every client message type arrives as its own broadcast event
+    for (const event of Object.values(ClientMessageTypes)) {
+      channel.on('broadcast', { event }, (payload) => {
+        const parsed = parseClientMessage(event, payload.payload);
+        if (!parsed.ok) {
+          console.error('Rejected client message:', parsed.error);
+          return;
         }
+        this.handleClientMessage(parsed.message);
       });
+    }
 
-      this.channel.subscribe((status, err) => {
+    return new Promise((resolve, reject) => {
+      let joined = false;
+      channel.subscribe((status, err) => {
+        // Statuses from a channel we replaced or closed ourselves don't matter
+        if (channel !== this.channel || this.closed) return;
         console.log('Channel status:', status);
         if (status === 'SUBSCRIBED') {
+          joined = true;
           this.connected = true;
+          void this.flushOutbox();
           resolve();
-        } else if (status === 'CHANNEL_ERROR') {
-          reject(new Error('Failed to subscribe to channel: ' + (err?.message || 'unknown')));
-        } else if (status === 'TIMED_OUT') {
-          reject(new Error('Channel subscription timed out'));
+          return;
+        }
+        const error = status === 'TIMED_OUT'
+          ? new Error('Channel subscription timed out')
+          : new Error('Failed to subscribe to channel: ' + (err?.message || status.toLowerCase()));
+        if (!joined) {
+          reject(error);
+        } else {
+          this.handleDrop(error.message);
         }
       });
     });
   }
 
-  // Send message to frontend
-  async send(message: Record<string, unknown>): Promise<unknown> {
-    if (!this.channel || !this.connected) {
-      throw new Error('Channel not connected');
+  // The channel stopped working: stop sending on it and start rejoining
+  private handleDrop(reason: string): void {
+    if (!this.connected) return;
+    this.connected = false;
+    console.error('Channel dropped:', reason);
+    void this.reconnect();
+  }
+
+  // The channel dropped: rejoin it, or close for good if that keeps failing
+  private async reconnect(): Promise<void> {
+    const droppedAt = Date.now();
+    await this.dropChannel();
+    this.rejoining = this.rejoin();
+    const attempts = await this.rejoining;
+    this.rejoining = null;
+    if (attempts) {
+      await this.send(formatReconnected(attempts, Date.now() - droppedAt));
+      return;
+    }
+    if (this.closed) return;
+
+    console.error('Giving up on the channel');
+    this.closed = true;
+    this.gaveUp = true;
+    this.wakeGenerator();
+    await this.dropChannel();
+    this.lostHandler?.();
+  }
+
+  // Join a fresh channel with exponential backoff; resolves to the attempts it took, or 0 if none worked
+  private async rejoin(): Promise<number> {
+    for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+      await new Promise<void>(resolve => { this.reconnectTimer = setTimeout(resolve, delay); });
+      this.reconnectTimer = null;
+      if (this.closed) return 0;
+
+      await this.dropChannel();
+      try {
+        console.log(`Joining channel again (attempt ${attempt} of ${MAX_RECONNECT_ATTEMPTS})`);
+        await this.supabase.realtime.setAuth(this.accessToken);
+        await this.subscribe();
+        console.log('Joined channel after', attempt, 'attempts');
+        return attempt;
+      } catch (err) {
+        console.error(`Attempt ${attempt} to join channel failed:`, (err as Error).message);
+      }
+    }
+    return 0;
+  }
+
+  // Leave the current channel so Realtime stops rejoining it on its own; its statuses are ignored from now on
+  private async dropChannel(): Promise<void> {
+    const stale = this.channel;
+    this.channel = null;
+    if (stale) {
+      await this.supabase.removeChannel(stale).catch(err => console.error('Failed to remove channel:', err));
+    }
+  }
+
+  private handleClientMessage(message: ClientMessage): void {
+    switch (message.type) {
+      case 'user_message':
+        console.log('Received user_message:', message.content.substring(0, 50));
+        this.transcript?.append('user_message', { content: message.content });
+        this.messageQueue.push(message);
+        this.wakeGenerator();
+        break;
+
+      // Stop the current turn without ending the session
+      case 'interrupt':
+        console.log('Received interrupt');
+        this.interruptHandler?.();
+        break;
+
+      // Answers to permission requests for dangerous tools
+      case 'approve':
+      case 'deny':
+        console.log('Received', message.type, 'for', message.requestId);
+        this.permissionHandler?.(message.requestId, message.type === 'approve');
+        break;
+
+      // A client that connected late or lost messages asks for everything after its last seq
+      case 'resync': {
+        // A client on an older epoch has seen nothing from this process
+        const from = message.epoch === this.epoch ? message.afterSeq : 0;
+        console.log('Received resync after', from);
+        void this.replay(from);
+        break;
+      }
+    }
+  }
+
+  // Register the handler invoked when the frontend asks to interrupt
+  onInterrupt(handler: () => void): void {
+    this.interruptHandler = handler;
+  }
+
+  // Register the handler invoked when the frontend answers a permission request
+  onPermissionResponse(handler: (requestId: string, approved: boolean) => void): void {
+    this.permissionHandler = handler;
+  }
+
+  // Register the handler invoked when the channel drops and can't be rejoined
+  onLost(handler: () => void): void {
+    this.lostHandler = handler;
+  }
+
+  // The channel dropped and rejoining it failed
+  get lost(): boolean {
+    return this.gaveUp;
+  }
+
+  // Send message to frontend, numbered so clients can detect and recover gaps.
+  // While the channel is down messages wait in the outbox; once it is closed they only reach the transcript.
+  async send(message: AgentMessage): Promise<void> {
+    // Deltas are superseded by the complete assistant_message, so only that is kept
+    if (message.type !== MessageTypes.ASSISTANT_DELTA) {
+      this.transcript?.append('agent_message', message);
+    }
+    if (this.closed) {
+      console.error('Channel closed, not sending:', message.type);
+      return;
     }
     console.log('Sending to channel:', message.type);
-    return this.channel.send({
+    const sequenced = { ...message, seq: ++this.seq, epoch: this.epoch };
+    this.replayBuffer.push(sequenced);
+    if (this.replayBuffer.length > MAX_REPLAY_MESSAGES) {
+      // The ready stays: a page that joins a running session late needs it to know the agent is up
+      this.replayBuffer.splice(this.replayBuffer[0].type === MessageTypes.READY ? 1 : 0, 1);
+    }
+    this.outbox.push(sequenced);
+    // Older messages than the replay buffer holds couldn't be recovered by clients anyway
+    if (this.outbox.length > MAX_REPLAY_MESSAGES) {
+      this.outbox.shift();
+    }
+    await this.flushOutbox();
+  }
+
+  // Broadcast the outbox in order; stops when the channel drops and resumes once it is rejoined.
+  // Callers share a flush in progress.
+  private flushOutbox(): Promise<void> {
+    this.flushing ??= this.drainOutbox().finally(() => {
+      this.flushing = null;
+      // Messages queued after the last check go out with the next flush
+      if (this.connected && this.outbox.length > 0) void this.flushOutbox();
+    });
+    return this.flushing;
+  }
+
+  private async drainOutbox(): Promise<void> {
+    while (this.connected && this.outbox.length > 0) {
+      const result = await this.broadcast(this.outbox[0]);
+      // Realtime reports a failed send instead of throwing; keep the message for after the rejoin
+      if (result !== 'ok') {
+        this.handleDrop(`broadcast ${result}`);
+        return;
+      }
+      this.outbox.shift();
+    }
+  }
+
+  // Re-send buffered messages after a sequence number; clients drop ones they already have
+  private async replay(afterSeq: number): Promise<void> {
+    if (!this.connected) return;
+    const missed = this.replayBuffer.filter(message => message.seq! > afterSeq);
+    console.log('Replaying', missed.length, 'messages');
+    for (const message of missed) {
+      await this.broadcast(message);
+    }
+  }
+
+  private broadcast(payload: AgentMessage): Promise<RealtimeChannelSendResponse> {
+    return this.channel!.send({
       type: 'broadcast',
       event: 'agent_message',
-      payload: message
+      payload
     });
   }
 
-  // AsyncGenerator for interactive mode (messageGenerator pattern)
+  // AsyncGenerator for interactive mode (messageGenerator pattern); ends when the channel closes
   async *messageGenerator(): AsyncGenerator<{ type: string; message: { role: string; content: string } }> {
-    while (this.connected) {
+    while (!this.closed) {
       if (this.messageQueue.length > 0) {
         const msg = this.messageQueue.shift()!;
         console.log('Yielding message to agent:', msg.content?.substring(0, 50));
@@ -86,14 +322,41 @@ export class AgentChannel {
     }
   }
 
-  async disconnect(): Promise<void> {
-    this.connected = false;
+  // Let a waiting messageGenerator look at the queue and the channel's state again
+  private wakeGenerator(): void {
     if (this.resolveNext) {
       this.resolveNext();
       this.resolveNext = null;
     }
+  }
+
+  async disconnect(): Promise<void> {
+    // Deliver what's still waiting before leaving, giving a rejoin under way a little time to finish
+    const deadline = Date.now() + DISCONNECT_REJOIN_WAIT_MS;
+    while (this.outbox.length > 0 && !this.closed && Date.now() < deadline) {
+      if (this.connected) {
+        await this.flushOutbox();
+        continue;
+      }
+      if (!this.rejoining) break;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<void>(resolve => { timer = setTimeout(resolve, deadline - Date.now()); });
+      await Promise.race([this.rejoining, timeout]);
+      clearTimeout(timer);
+    }
+    if (this.outbox.length > 0) {
+      console.error('Closing with', this.outbox.length, 'messages not delivered');
+    }
+    this.closed = true;
+    this.connected = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.wakeGenerator();
     if (this.channel) {
       await this.channel.unsubscribe();
     }
+    await this.transcript?.flush();
   }
 }
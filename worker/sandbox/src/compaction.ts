@@ -0,0 +1,123 @@
+import { formatContextCompacted, type AgentMessage } from './messages.js';
+
+// Context size (tokens sent to and returned by the latest model call) past which a chat is compacted
+export const COMPACT_THRESHOLD_TOKENS = 100_000;
+
+// Exchanges (a user message and the agent's replies to it) carried over word for word
+export const VERBATIM_EXCHANGES = 3;
+
+// What the summary should cover; the latest exchanges follow it verbatim, so it can focus on the rest
+const COMPACT_INSTRUCTIONS = `Summarize the conversation as a compact memory block: what the user wants,
+decisions made, preferences stated, and the IDs of todos and categories still being discussed.
+The last ${VERBATIM_EXCHANGES} exchanges will be repeated verbatim after your summary, so concentrate on the earlier ones.`;
+
+interface Exchange {
+  user: string;
+  replies: string[];
+}
+
+// A user message as the SDK reads it from the prompt generator
+type UserInput = { type: string; message: { role: string; content: string } };
+
+// Token counts of one model call, as on the SDK's assistant messages
+interface CallUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+/**
+ * Keeps a long interactive conversation from growing without bound. It tracks the
+ * context size of the latest model call, and once that passes the threshold it puts
+ * a /compact command ahead of the user's next message, so the SDK replaces the
+ * conversation so far with a summary before answering it. The latest exchanges are
+ * recorded as they happen and sent again, verbatim, ahead of that next message, so
+ * only the older turns are left to the summary. The SDK's own automatic compaction
+ * and a /compact the user types are reported the same way, without the carried-over turns.
+ */
+export class ContextCompactor {
+  private threshold: number;
+  private contextTokens = 0;
+  private compacting = false;
+  private recent: Exchange[] = [];
+
+  constructor(threshold = COMPACT_THRESHOLD_TOKENS) {
+    this.threshold = threshold;
+  }
+
+  // Every call sends the whole conversation, so the latest one's tokens are the context size
+  recordUsage(usage: CallUsage): void {
+    this.contextTokens = usage.input_tokens +
+      (usage.cache_read_input_tokens ?? 0) +
+      (usage.cache_creation_input_tokens ?? 0) +
+      usage.output_tokens;
+  }
+
+  // Text the agent wrote in answer to the latest user message
+  recordReply(text: string): void {
+    this.recent.at(-1)?.replies.push(text);
+  }
+
+  // The user's messages, with a /compact first when the conversation has grown past the threshold
+  // and the exchanges before it carried over ahead of the message that follows
+  async *messages(source: AsyncIterable<UserInput>): AsyncGenerator<UserInput> {
+    for await (const message of source) {
+      const content = message.message.content;
+      if (!this.compacting && this.contextTokens >= this.threshold) {
+        console.log(`Context at ${this.contextTokens} tokens, compacting`);
+        this.compacting = true;
+        const kept = this.recent;
+        this.recent = [];
+        yield { type: 'user', message: { role: 'user', content: `/compact ${COMPACT_INSTRUCTIONS}` } };
+        this.remember(content);
+        yield { ...message, message: { ...message.message, content: `${carryOver(kept)}${content}` } };
+        continue;
+      }
+      this.remember(content);
+      yield message;
+    }
+  }
+
+  // Slash commands aren't part of the conversation worth carrying over
+  private remember(content: string): void {
+    if (content.startsWith('/')) return;
+    this.recent.push({ user: content, replies: [] });
+    if (this.recent.length > VERBATIM_EXCHANGES) {
+      this.recent.shift();
+    }
+  }
+
+  // True while a compaction this class asked for is running; its output isn't a turn the user asked for
+  get inProgress(): boolean {
+    return this.compacting;
+  }
+
+  // The SDK replaced older turns with a summary: the message that tells the frontend
+  compacted(trigger: 'auto' | 'manual', preTokens: number): AgentMessage {
+    this.contextTokens = 0;
+    // A compaction asked for here is a manual /compact to the SDK, but the user didn't ask for it
+    return formatContextCompacted(this.compacting ? 'auto' : trigger, preTokens);
+  }
+
+  // A result arrived; true if it ended a compaction rather than a user's turn
+  finishTurn(): boolean {
+    const wasCompacting = this.compacting;
+    this.compacting = false;
+    return wasCompacting;
+  }
+}
+
+// The exchanges before a compaction, word for word, to go ahead of the next user message
+function carryOver(exchanges: Exchange[]): string {
+  if (exchanges.length === 0) return '';
+  const lines = exchanges.flatMap(exchange => [
+    `User: ${exchange.user}`,
+    ...exchange.replies.map(reply => `Assistant: ${reply}`)
+  ]);
+  return `[The conversation was compacted. The latest exchanges before the summary, verbatim:]
+${lines.join('\n\n')}
+[End of the earlier exchanges. The user's new message follows.]
+
+`;
+}
@@ -0,0 +1,107 @@
+// Persists the Agent SDK's conversation file via the worker so a session can be
+// resumed after the sandbox sleeps and the container's filesystem is gone
+
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+interface ConversationState {
+  claudeSessionId: string;
+  path: string; // relative to the SDK config directory
+  content: string;
+}
+
+// The SDK writes conversations to <config dir>/projects/<encoded cwd>/<session id>.jsonl
+function configDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR ?? join(homedir(), '.claude');
+}
+
+async function findConversationFile(claudeSessionId: string): Promise<string | null> {
+  const projectsDir = join(configDir(), 'projects');
+  let projects: string[];
+  try {
+    projects = await readdir(projectsDir);
+  } catch {
+    return null;
+  }
+
+  for (const project of projects) {
+    const files = await readdir(join(projectsDir, project)).catch(() => [] as string[]);
+    if (files.includes(`${claudeSessionId}.jsonl`)) {
+      return join('projects', project, `${claudeSessionId}.jsonl`);
+    }
+  }
+  return null;
+}
+
+export class ConversationStore {
+  private endpoint: string;
+  private accessToken: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(workerUrl: string, sessionId: string, accessToken: string) {
+    this.endpoint = `${workerUrl}/api/agent/sessions/${sessionId}/conversation`;
+    this.accessToken = accessToken;
+  }
+
+  /**
+   * Fetch the stored conversation and put its file back where the SDK expects it.
+   * Returns the SDK session id to resume, or null to start fresh.
+   */
+  async restore(): Promise<string | null> {
+    try {
+      const response = await fetch(this.endpoint, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        console.error('Conversation restore failed:', response.status, await response.text());
+        return null;
+      }
+
+      const state = await response.json() as ConversationState;
+      const file = join(configDir(), state.path);
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, state.content);
+      console.log('Restored conversation:', state.claudeSessionId);
+      return state.claudeSessionId;
+    } catch (err) {
+      // Resuming is best-effort; a fresh conversation beats no agent at all
+      console.error('Conversation restore error:', err);
+      return null;
+    }
+  }
+
+  // Upload the latest snapshot; saves are chained so an older one never lands last
+  save(claudeSessionId: string): Promise<void> {
+    this.pending = this.pending.then(() => this.upload(claudeSessionId));
+    return this.pending;
+  }
+
+  private async upload(claudeSessionId: string): Promise<void> {
+    try {
+      const path = await findConversationFile(claudeSessionId);
+      if (!path) {
+        console.error('Conversation file not found for session:', claudeSessionId);
+        return;
+      }
+
+      const content = await readFile(join(configDir(), path), 'utf8');
+      const response = await fetch(this.endpoint, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.accessToken}`
+        },
+        body: JSON.stringify({ claudeSessionId, path, content })
+      });
+      if (!response.ok) {
+        console.error('Conversation save failed:', response.status, await response.text());
+      }
+    } catch (err) {
+      console.error('Conversation save error:', err);
+    }
+  }
+}
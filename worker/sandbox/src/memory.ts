@@ -0,0 +1,26 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const MAX_MEMORY_LENGTH = 500; // matches the agent_memories CHECK constraint
+
+export interface Memory {
+  id: string;
+  content: string;
+}
+
+/**
+ * The newest memories, for the system prompt (see prompt.ts).
+ * Failing to load them shouldn't stop a session, so errors leave the list empty.
+ */
+export async function loadMemories(db: SupabaseClient, limit: number): Promise<Memory[]> {
+  const { data, error } = await db
+    .from('agent_memories')
+    .select('id, content')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Failed to load memories:', error.message);
+    return [];
+  }
+  return data;
+}
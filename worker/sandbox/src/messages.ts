@@ -1,46 +1,59 @@
-// Message types sent TO frontend (from agent)
-export const MessageTypes = {
-  READY: 'ready',
-  ASSISTANT_MESSAGE: 'assistant_message',
-  TOOL_USE: 'tool_use',
-  SLASH_OUTPUT: 'slash_output',
-  ERROR: 'error',
-  COMPLETE: 'complete'
-} as const;
-
-// Message types received FROM frontend (to agent)
-export const ClientMessageTypes = {
-  USER_MESSAGE: 'user_message'
-} as const;
-
-export interface AgentMessage {
-  type: string;
-  timestamp: number;
-  [key: string]: unknown;
-}
+// Agent-side constructors for the shared message protocol
+import {
+  PROTOCOL_VERSION,
+  MessageTypes,
+  type AgentMessage,
+  type AgentMessageType
+} from '../../../shared/protocol.js';
+
+export { MessageTypes, ClientMessageTypes, parseClientMessage } from '../../../shared/protocol.js';
+export type { AgentMessage, ClientMessage, CompletionStatus, ChangeTable, ProposedChange } from '../../../shared/protocol.js';
+
+// Fields a formatter supplies for a given message type
+type MessageFields<T extends AgentMessageType> = Omit<Extract<AgentMessage, { type: T }>, 'type' | 'timestamp' | 'seq' | 'epoch'>;
 
 // Format outgoing message with timestamp
-export function formatMessage(type: string, data: Record<string, unknown> = {}): AgentMessage {
+export function formatMessage<T extends AgentMessageType>(type: T, data: MessageFields<T>): AgentMessage {
+  // TypeScript can't relate the spread fields back to the union member for T
   return {
     type,
     timestamp: Date.now(),
     ...data
-  };
+  } as unknown as AgentMessage;
 }
 
-// Format ready message
-export function formatReady(): AgentMessage {
-  return formatMessage(MessageTypes.READY);
+// Format ready message (resumed: the previous conversation was restored)
+export function formatReady(resumed = false): AgentMessage {
+  return formatMessage(MessageTypes.READY, { protocolVersion: PROTOCOL_VERSION, resumed });
 }
 
-// Format assistant response
-export function formatAssistantMessage(content: string): AgentMessage {
-  return formatMessage(MessageTypes.ASSISTANT_MESSAGE, { content });
+// Format assistant response (messageId matches the deltas streamed for it)
+export function formatAssistantMessage(content: string, messageId?: string): AgentMessage {
+  return formatMessage(MessageTypes.ASSISTANT_MESSAGE, { content, messageId });
 }
 
-// Format tool use
-export function formatToolUse(toolName: string, toolInput: unknown): AgentMessage {
-  return formatMessage(MessageTypes.TOOL_USE, { toolName, toolInput });
+// Format a streamed chunk of an assistant response
+export function formatAssistantDelta(messageId: string, text: string): AgentMessage {
+  return formatMessage(MessageTypes.ASSISTANT_DELTA, { messageId, text });
+}
+
+// Tool output beyond this many characters is cut off before broadcasting
+export const MAX_TOOL_RESULT_LENGTH = 2000;
+
+// Format tool use (toolUseId pairs it with its tool_result)
+export function formatToolUse(toolName: string, toolInput: Record<string, unknown>, toolUseId?: string): AgentMessage {
+  return formatMessage(MessageTypes.TOOL_USE, { toolName, toolInput, toolUseId });
+}
+
+// Format the outcome of a tool call
+export function formatToolResult(toolUseId: string, isError: boolean, content: string): AgentMessage {
+  const truncated = content.length > MAX_TOOL_RESULT_LENGTH;
+  return formatMessage(MessageTypes.TOOL_RESULT, {
+    toolUseId,
+    isError,
+    content: truncated ? content.slice(0, MAX_TOOL_RESULT_LENGTH) : content,
+    truncated
+  });
 }
 
 // Format slash command output
@@ -48,12 +61,42 @@ export function formatSlashOutput(content: string): AgentMessage {
   return formatMessage(MessageTypes.SLASH_OUTPUT, { content });
 }
 
+// Format a request for the user to approve a dangerous tool call
+export function formatPermissionRequest(
+  requestId: string,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  toolUseId: string
+): AgentMessage {
+  return formatMessage(MessageTypes.PERMISSION_REQUEST, { requestId, toolName, toolInput, toolUseId });
+}
+
+// Format the decision on a permission request
+export function formatPermissionResult(requestId: string, approved: boolean, reason: string): AgentMessage {
+  return formatMessage(MessageTypes.PERMISSION_RESULT, { requestId, approved, reason });
+}
+
+// Format end of an interactive turn (agent is waiting for input again)
+export function formatTurnComplete(interrupted = false): AgentMessage {
+  return formatMessage(MessageTypes.TURN_COMPLETE, { interrupted });
+}
+
+// Format notice that older turns were summarized (trigger: who asked, preTokens: context size before)
+export function formatContextCompacted(trigger: 'auto' | 'manual', preTokens: number): AgentMessage {
+  return formatMessage(MessageTypes.CONTEXT_COMPACTED, { trigger, preTokens });
+}
+
+// Format notice that the agent rejoined its channel after losing it
+export function formatReconnected(attempts: number, downtimeMs: number): AgentMessage {
+  return formatMessage(MessageTypes.RECONNECTED, { attempts, downtimeMs });
+}
+
 // Format error
 export function formatError(message: string): AgentMessage {
   return formatMessage(MessageTypes.ERROR, { message });
 }
 
-// Format completion (for non-interactive mode)
-export function formatComplete(result: string): AgentMessage {
-  return formatMessage(MessageTypes.COMPLETE, { result });
+// Format completion report (for non-interactive mode)
+export function formatComplete(report: MessageFields<'complete'>): AgentMessage {
+  return formatMessage(MessageTypes.COMPLETE, report);
 }
@@ -0,0 +1,96 @@
+import { randomUUID } from 'crypto';
+import type { CanUseTool, PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+import type { AgentChannel } from './channel.js';
+import { formatPermissionRequest, formatPermissionResult } from './messages.js';
+
+// How a run handles calls to dangerous tools
+export type PermissionPolicy = 'ask' | 'auto-approve' | 'auto-deny';
+
+// Tools that change or destroy user data without an easy undo
+export const DANGEROUS_TOOLS = [
+  'mcp__todos__DeleteTodo',
+  'mcp__todos__BulkDeleteTodos',
+  'mcp__todos__DeleteCategory',
+  'mcp__todos__Forget' // memories are not in the audit log, so this can't be undone
+];
+
+// Unanswered requests are denied after this long
+export const PERMISSION_TIMEOUT_MS = 2 * 60 * 1000;
+
+interface PendingRequest {
+  resolve: (approved: boolean, reason: string) => void;
+}
+
+/**
+ * Gates tool calls through the SDK's canUseTool callback.
+ * Safe tools run without asking; dangerous tools follow the run's policy,
+ * and under 'ask' wait for the user to approve or deny over the channel.
+ */
+export class PermissionGate {
+  private channel: AgentChannel;
+  private policy: PermissionPolicy;
+  private allowedTools: Set<string>;
+  private dangerousTools: Set<string>;
+  private pending = new Map<string, PendingRequest>();
+
+  constructor(
+    channel: AgentChannel,
+    policy: PermissionPolicy,
+    allowedTools: string[],
+    dangerousTools: string[] = DANGEROUS_TOOLS
+  ) {
+    this.channel = channel;
+    this.policy = policy;
+    this.allowedTools = new Set(allowedTools);
+    this.dangerousTools = new Set(dangerousTools);
+  }
+
+  canUseTool: CanUseTool = async (toolName, input, { signal, toolUseID }) => {
+    if (!this.allowedTools.has(toolName)) {
+      return { behavior: 'deny', message: `${toolName} is not available in this session` };
+    }
+    if (!this.dangerousTools.has(toolName)) {
+      return { behavior: 'allow', updatedInput: input };
+    }
+
+    if (this.policy !== 'ask') {
+      const approved = this.policy === 'auto-approve';
+      console.log('Permission', approved ? 'auto-approved' : 'auto-denied', 'for', toolName);
+      return this.decide(input, approved, approved ? 'Approved by run policy' : 'Denied by run policy');
+    }
+
+    const requestId = randomUUID();
+    console.log('Requesting permission for', toolName, requestId);
+
+    const decision = new Promise<{ approved: boolean; reason: string }>(resolve => {
+      const timer = setTimeout(() => settle(false, 'No response from the user'), PERMISSION_TIMEOUT_MS);
+      const onAbort = () => settle(false, 'Interrupted');
+      const settle = (approved: boolean, reason: string) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        this.pending.delete(requestId);
+        resolve({ approved, reason });
+      };
+      signal.addEventListener('abort', onAbort);
+      this.pending.set(requestId, { resolve: settle });
+    });
+
+    await this.channel.send(formatPermissionRequest(requestId, toolName, input, toolUseID));
+    const { approved, reason } = await decision;
+    await this.channel.send(formatPermissionResult(requestId, approved, reason));
+    return this.decide(input, approved, reason);
+  };
+
+  /**
+   * Answer a pending request from the frontend (unknown or settled requests are ignored)
+   */
+  respond(requestId: string, approved: boolean): void {
+    this.pending.get(requestId)?.resolve(approved, approved ? 'Approved by the user' : 'Denied by the user');
+  }
+
+  private decide(input: Record<string, unknown>, approved: boolean, reason: string): PermissionResult {
+    return approved
+      ? { behavior: 'allow', updatedInput: input }
+      : { behavior: 'deny', message: `The user did not allow this action (${reason.toLowerCase()})` };
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ChangePlan } from './plan.js';
+
+const stored = [
+  { id: 't1', title: 'Buy milk', completed: false, category_id: null },
+  { id: 't2', title: 'Call mum', completed: false, category_id: 'c1' },
+  { id: 't3', title: 'File taxes', completed: true, category_id: null }
+];
+
+describe('ChangePlan.overlay', () => {
+  it('returns the stored rows when the plan has not touched them', () => {
+    expect(new ChangePlan().overlay('todos', stored)).toEqual(stored);
+  });
+
+  it('merges updates, drops deletes and adds inserts', () => {
+    const plan = new ChangePlan();
+    plan.update('ToggleTodo', 'todos', stored[0], { completed: true });
+    plan.delete('DeleteTodo', 'todos', stored[1]);
+    const id = plan.insert('AddTodo', 'todos', { title: 'Walk dog', completed: false, category_id: null });
+
+    expect(plan.overlay('todos', stored)).toEqual([
+      { ...stored[0], completed: true },
+      stored[2],
+      { id, title: 'Walk dog', completed: false, category_id: null }
+    ]);
+  });
+
+  it('applies later changes to a row the plan inserted', () => {
+    const plan = new ChangePlan();
+    const id = plan.insert('AddTodo', 'todos', { title: 'Walk dog', completed: false, category_id: null });
+    plan.update('UpdateTodo', 'todos', { ...plan.row('todos', id)!, id }, { title: 'Walk the dog' });
+    expect(plan.overlay('todos', [])).toEqual([{ id, title: 'Walk the dog', completed: false, category_id: null }]);
+
+    plan.delete('DeleteTodo', 'todos', { ...plan.row('todos', id)!, id });
+    expect(plan.overlay('todos', [])).toEqual([]);
+  });
+
+  it('keeps tables apart', () => {
+    const plan = new ChangePlan();
+    plan.delete('DeleteCategory', 'categories', { id: 't1', name: 'Home' });
+    expect(plan.overlay('todos', stored)).toEqual(stored);
+    expect(plan.overlay('categories', [{ id: 't1', name: 'Home' }])).toEqual([]);
+  });
+
+  it('does not change the stored rows', () => {
+    const plan = new ChangePlan();
+    plan.update('ToggleTodo', 'todos', stored[0], { completed: true });
+    plan.overlay('todos', stored);
+    expect(stored[0].completed).toBe(false);
+  });
+});
+
+describe('ChangePlan changes', () => {
+  it('records each write with what it replaces', () => {
+    const plan = new ChangePlan();
+    plan.update('UpdateTodo', 'todos', stored[1], { title: 'Call dad' });
+    plan.delete('DeleteTodo', 'todos', stored[2]);
+
+    expect(plan.changes).toEqual([
+      { tool: 'UpdateTodo', table: 'todos', operation: 'update', id: 't2', before: { title: 'Call mum' }, after: { title: 'Call dad' } },
+      {
+        tool: 'DeleteTodo',
+        table: 'todos',
+        operation: 'delete',
+        id: 't3',
+        before: { title: 'File taxes', completed: true, category_id: null },
+        after: null
+      }
+    ]);
+  });
+});
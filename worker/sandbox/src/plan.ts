@@ -0,0 +1,72 @@
+import { randomUUID } from 'node:crypto';
+import type { ChangeTable, ProposedChange } from './messages.js';
+
+type Row = Record<string, unknown>;
+
+// The field that names a row, kept in every snapshot so a change can be shown on its own
+export const LABEL_FIELDS: Record<ChangeTable, string> = {
+  todos: 'title',
+  categories: 'name'
+};
+
+// The fields the tools write; a deleted row's snapshot holds all of them
+export const PLANNED_FIELDS: Record<ChangeTable, string[]> = {
+  todos: ['title', 'completed', 'category_id'],
+  categories: ['name']
+};
+
+function pick(row: Row, fields: string[]): Row {
+  return Object.fromEntries(fields.map(field => [field, row[field] ?? null]));
+}
+
+/**
+ * The writes a dry run's tools would have made, recorded instead of executed.
+ * Later calls in the same run see the plan's own rows, so a todo it added can
+ * be updated and a category it added can be referred to by name.
+ */
+export class ChangePlan {
+  readonly changes: ProposedChange[] = [];
+  // Each touched row as the plan leaves it, or null once the plan deletes it
+  private rows: Record<ChangeTable, Map<string, Row | null>> = {
+    todos: new Map(),
+    categories: new Map()
+  };
+
+  insert(tool: string, table: ChangeTable, fields: Row): string {
+    const id = randomUUID();
+    this.changes.push({ tool, table, operation: 'insert', id, before: null, after: fields });
+    this.rows[table].set(id, { id, ...fields });
+    return id;
+  }
+
+  update(tool: string, table: ChangeTable, current: Row & { id: string }, fields: Row): void {
+    const before = pick(current, [LABEL_FIELDS[table], ...Object.keys(fields)]);
+    this.changes.push({ tool, table, operation: 'update', id: current.id, before, after: fields });
+    this.rows[table].set(current.id, { ...current, ...fields });
+  }
+
+  delete(tool: string, table: ChangeTable, current: Row & { id: string }): void {
+    const before = pick(current, PLANNED_FIELDS[table]);
+    this.changes.push({ tool, table, operation: 'delete', id: current.id, before, after: null });
+    this.rows[table].set(current.id, null);
+  }
+
+  // A row as the plan leaves it: null if the plan deleted it, undefined if the plan hasn't touched it
+  row(table: ChangeTable, id: string): Row | null | undefined {
+    return this.rows[table].get(id);
+  }
+
+  // Stored rows with the plan's changes applied: deleted rows dropped, updates merged, inserts added
+  overlay<T extends { id: string }>(table: ChangeTable, stored: T[]): T[] {
+    const touched = this.rows[table];
+    const result = stored
+      .filter(row => touched.get(row.id) !== null)
+      .map(row => ({ ...row, ...touched.get(row.id) }) as T);
+    for (const [id, row] of touched) {
+      if (row && !stored.some(existing => existing.id === id)) {
+        result.push(row as T);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,149 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadMemories } from './memory.js';
+
+// What a session's system prompt is built from besides the user's data
+export interface PromptOptions {
+  timezone?: string; // IANA time zone from the client (default UTC)
+  locale?: string; // BCP 47 locale from the client (default en-US)
+  outputSchema?: boolean; // the final answer must be structured output
+  dryRun?: boolean; // writes are recorded as proposed changes
+  append?: string; // the request's systemPromptAppend
+}
+
+// Tokens the data sections may use between them; the instructions and the request's additions come on top
+export const CONTEXT_TOKEN_BUDGET = 2000;
+
+const RECENT_TODOS = 10;
+const MEMORIES = 50;
+
+const INSTRUCTIONS = `You are a helpful assistant that can manage todos for the current user.
+Use the ListTodos, AddTodo, UpdateTodo, DeleteTodo, and ToggleTodo tools to help users manage their tasks,
+and ListCategories, AddCategory, RenameCategory, and DeleteCategory to organize them.
+Refer to categories by name; call ListCategories when you need to know which exist.
+When changing more than a couple of todos, use BulkAddTodos, BulkUpdateTodos, or BulkDeleteTodos in a single call.
+When the user shares a lasting preference or fact (e.g. when they shop, where work todos belong), save it with Remember;
+use Recall to look things up and Forget when something no longer applies.
+ListTodos returns a page at a time with the total that match; narrow it with its filters rather than paging through everything.
+When listing todos, present them in a readable format.
+Respond concisely and helpfully.`;
+
+// Rough count for budgeting: about four characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * A titled list cut to fit a token budget. Lines are kept in order until the next
+ * would not fit; the rest are replaced by a note saying how to get them.
+ */
+function fitList(title: string, lines: string[], budget: number, omitted: (count: number) => string): string {
+  let text = title;
+  let kept = 0;
+  for (const line of lines) {
+    // Leave room for the note about what didn't fit
+    const reserve = kept + 1 < lines.length ? estimateTokens(omitted(lines.length - kept - 1)) : 0;
+    if (estimateTokens(`${text}\n${line}`) + reserve > budget) break;
+    text += `\n${line}`;
+    kept++;
+  }
+  return kept < lines.length ? `${text}\n${omitted(lines.length - kept)}` : text;
+}
+
+// Today's date and time where the user is, in their locale and as ISO for tool arguments
+function describeNow(timezone: string, locale: string, now = new Date()): string {
+  const local = new Intl.DateTimeFormat(locale, { timeZone: timezone, dateStyle: 'full', timeStyle: 'short' }).format(now);
+  const isoDate = new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(now);
+  return `It is ${local} for the user (${isoDate}, time zone ${timezone}). Write dates and numbers for the ${locale} locale.`;
+}
+
+async function countOf(query: PromiseLike<{ count: number | null; error: { message: string } | null }>): Promise<number | null> {
+  const { count, error } = await query;
+  return error ? null : count;
+}
+
+/**
+ * Assemble the system prompt for a session: the agent's instructions, where and when
+ * the user is, a snapshot of their todos and categories, and what the agent remembers,
+ * so the model can act without first listing everything. The data sections share
+ * CONTEXT_TOKEN_BUDGET, filled in priority order: categories (the model needs their IDs),
+ * memories, then recent todos. A section whose query fails is left out.
+ */
+export async function buildSystemPrompt(db: SupabaseClient, options: PromptOptions = {}): Promise<string> {
+  const timezone = options.timezone ?? 'UTC';
+  const locale = options.locale ?? 'en-US';
+  const todoCount = () => db.from('todos').select('id', { count: 'exact', head: true });
+
+  const [categories, recent, memories, open, completed, uncategorized] = await Promise.all([
+    db.from('categories').select('id, name, todos(count)').eq('todos.completed', false).order('name'),
+    db.from('todos')
+      .select('id, title, completed, created_at, categories(name)')
+      .order('created_at', { ascending: false })
+      .limit(RECENT_TODOS),
+    loadMemories(db, MEMORIES + 1),
+    countOf(todoCount().eq('completed', false)),
+    countOf(todoCount().eq('completed', true)),
+    countOf(todoCount().eq('completed', false).is('category_id', null))
+  ]);
+
+  const sections: string[] = [];
+  let budget = CONTEXT_TOKEN_BUDGET;
+  const add = (section: string) => {
+    sections.push(section);
+    budget -= estimateTokens(section);
+  };
+
+  add('This is a snapshot from the start of the session; use the tools for current details.');
+  if (open !== null && completed !== null) {
+    const loose = uncategorized ? `, ${uncategorized} of the open ones without a category` : '';
+    add(`The user has ${open} open and ${completed} completed todos${loose}.`);
+  }
+
+  if (categories.error) {
+    console.error('Failed to load categories for the prompt:', categories.error.message);
+  } else if (categories.data.length > 0) {
+    const lines = categories.data.map(category => {
+      const openTodos = (category.todos as Array<{ count: number }>)[0]?.count ?? 0;
+      return `- ${category.name} (id ${category.id}): ${openTodos} open`;
+    });
+    add(fitList('Categories:', lines, budget, left => `...and ${left} more; call ListCategories for the rest.`));
+  } else {
+    add('The user has no categories yet.');
+  }
+
+  if (memories.length > 0) {
+    const lines = memories.slice(0, MEMORIES).map(memory => `- ${memory.content} [${memory.id}]`);
+    const note = 'Older memories are not listed; use Recall to search them.';
+    let section = fitList(
+      'What you remember about this user from earlier sessions (newest first, with IDs for Forget):',
+      lines,
+      budget,
+      () => note
+    );
+    if (memories.length > MEMORIES && !section.endsWith(note)) {
+      section += `\n${note}`;
+    }
+    add(section);
+  }
+
+  if (recent.error) {
+    console.error('Failed to load recent todos for the prompt:', recent.error.message);
+  } else if (recent.data.length > 0) {
+    const lines = recent.data.map(todo => {
+      const category = (todo.categories as { name?: string } | null)?.name;
+      const added = String(todo.created_at).slice(0, 10);
+      return `- [${todo.completed ? 'x' : ' '}] ${todo.title} (id ${todo.id}${category ? `, ${category}` : ''}, added ${added})`;
+    });
+    add(fitList('Most recently added todos:', lines, budget, left => `...and ${left} more; call ListTodos for the rest.`));
+  }
+
+  return [
+    INSTRUCTIONS,
+    describeNow(timezone, locale),
+    ...sections,
+    options.outputSchema && 'Your final answer is read by a program: return it as structured output matching the provided JSON schema.',
+    options.dryRun && `This is a dry run: changes to todos and categories are recorded as a proposal for the user to review instead of being made.
+ListTodos shows todos with the proposed changes applied; other reads show the data as it is. Memories can't be changed in a dry run.
+Finish by summarizing what you propose to change.`,
+    options.append
+  ].filter(Boolean).join('\n\n');
+}
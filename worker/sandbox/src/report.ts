@@ -0,0 +1,76 @@
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { formatComplete, type AgentMessage, type CompletionStatus } from './messages.js';
+import type { ChangePlan } from './plan.js';
+
+/**
+ * Collects what a non-interactive run did so its complete message can report it.
+ * Most figures come from the SDK's result message; a run that fails before one
+ * arrives reports its own elapsed time and whatever tool calls it saw.
+ * A dry run's report carries the changes it proposed, whatever its status.
+ */
+export class RunReport {
+  private startedAt = Date.now();
+  private toolCalls: Record<string, number> = {};
+  private result: SDKResultMessage | null = null;
+  private plan: ChangePlan | null;
+
+  constructor(plan: ChangePlan | null = null) {
+    this.plan = plan;
+  }
+
+  recordToolUse(toolName: string): void {
+    this.toolCalls[toolName] = (this.toolCalls[toolName] ?? 0) + 1;
+  }
+
+  recordResult(result: SDKResultMessage): void {
+    this.result = result;
+  }
+
+  // Status implied by the SDK's result; success unless it reported an error
+  resultStatus(): CompletionStatus {
+    if (!this.result || this.result.subtype === 'success') {
+      return this.result?.is_error ? 'error' : 'success';
+    }
+    return this.result.subtype === 'error_max_turns' ? 'max_turns' : 'error';
+  }
+
+  complete(status: CompletionStatus, error?: string): AgentMessage {
+    const result = this.result;
+    const usage = result?.usage;
+    const structuredOutput = status === 'success' && result?.subtype === 'success'
+      ? result.structured_output as Record<string, unknown> | undefined
+      : undefined;
+    return formatComplete({
+      status,
+      result: status === 'success' && result?.subtype === 'success' ? result.result : '',
+      error: error ?? this.resultError(),
+      durationMs: result?.duration_ms ?? Date.now() - this.startedAt,
+      numTurns: result?.num_turns ?? 0,
+      usage: {
+        inputTokens: usage?.input_tokens ?? 0,
+        outputTokens: usage?.output_tokens ?? 0,
+        cacheReadInputTokens: usage?.cache_read_input_tokens ?? 0,
+        cacheCreationInputTokens: usage?.cache_creation_input_tokens ?? 0
+      },
+      costUsd: result?.total_cost_usd ?? 0,
+      toolCalls: this.toolCalls,
+      ...(structuredOutput !== undefined && { structuredOutput }),
+      ...(this.plan && { proposedChanges: this.plan.changes })
+    });
+  }
+
+  private resultError(): string | undefined {
+    const result = this.result;
+    if (!result) return undefined;
+    if (result.subtype === 'success') {
+      return result.is_error ? result.result : undefined;
+    }
+    if (result.subtype === 'error_max_turns') {
+      return `Stopped after reaching the limit of ${result.num_turns} turns`;
+    }
+    if (result.subtype === 'error_max_structured_output_retries') {
+      return 'The agent could not produce an answer matching the output schema';
+    }
+    return result.errors.join('\n') || result.subtype;
+  }
+}
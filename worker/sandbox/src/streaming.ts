@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import { formatAssistantDelta, type AgentMessage } from './messages.js';
+
+// Subset of the Anthropic stream events the agent cares about
+interface StreamEvent {
+  type: string;
+  index?: number;
+  message?: { id?: string };
+  content_block?: { type?: string };
+  delta?: { type?: string; text?: string };
+}
+
+// Deltas are coalesced for this long so a long answer isn't hundreds of broadcasts
+const DELTA_FLUSH_MS = 100;
+
+/**
+ * Turns SDK partial-message stream events into assistant_delta messages.
+ * Each streamed text block gets a message id; the complete assistant_message
+ * for that block reuses it so the frontend can replace the growing bubble.
+ */
+export class AssistantStream {
+  private send: (message: AgentMessage) => Promise<unknown>;
+  private apiMessageId = '';
+  private blockIds = new Map<number, string>();
+  private streamedIds: string[] = [];
+  private pending = new Map<string, string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(send: (message: AgentMessage) => Promise<unknown>) {
+    this.send = send;
+  }
+
+  handleEvent(event: StreamEvent): void {
+    if (event.type === 'message_start') {
+      this.apiMessageId = event.message?.id ?? randomUUID();
+      this.blockIds.clear();
+    } else if (event.type === 'content_block_start' && event.content_block?.type === 'text') {
+      const messageId = `${this.apiMessageId}:${event.index}`;
+      this.blockIds.set(event.index!, messageId);
+      this.streamedIds.push(messageId);
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+      const messageId = this.blockIds.get(event.index!);
+      if (!messageId) return;
+      this.pending.set(messageId, (this.pending.get(messageId) ?? '') + event.delta.text);
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => { void this.flush(); }, DELTA_FLUSH_MS);
+      }
+    }
+  }
+
+  // Id for the next complete text block; text blocks finish in the order they started
+  nextMessageId(): string {
+    return this.streamedIds.shift() ?? randomUUID();
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const pending = [...this.pending];
+    this.pending.clear();
+    for (const [messageId, text] of pending) {
+      await this.send(formatAssistantDelta(messageId, text));
+    }
+  }
+
+  // Forget blocks that never completed (e.g. an interrupted turn)
+  reset(): void {
+    this.streamedIds = [];
+    this.blockIds.clear();
+  }
+}
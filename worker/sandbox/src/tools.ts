@@ -1,13 +1,16 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { z as ZodType } from 'zod';
+import { PLANNED_FIELDS, type ChangePlan } from './plan.js';
+import { MAX_MEMORY_LENGTH } from './memory.js';
+import type { ChangeTable } from './messages.js';
 
 // Types for the SDK modules passed in
 interface SdkModules {
-  tool: (
+  tool: <Args>(
     name: string,
     description: string,
     schema: Record<string, unknown>,
-    handler: (args: Record<string, unknown>) => Promise<ToolResult>
+    handler: (args: Args) => Promise<ToolResult>
   ) => unknown;
   createSdkMcpServer: (config: { name: string; version: string; tools: unknown[] }) => unknown;
   z: typeof ZodType;
@@ -18,32 +21,306 @@ interface ToolResult {
   isError?: boolean;
 }
 
-// MCP tool definitions for todo management
+interface Category {
+  id: string;
+  name: string;
+}
+
+// Result of looking up a category the model referred to by name or ID
+type CategoryLookup = { category: Category } | { error: string };
+
+// Result of loading a row a dry run is about to change
+type PlannedRow = Record<string, unknown> & { id: string };
+type RowLookup = { row: PlannedRow } | { error: string };
+
+// Request headers the audit triggers read (see supabase/migrations/00007_agent_audit_log.sql):
+// the session goes on every request from the agent's client, the tool on each write
+export const AGENT_SESSION_HEADER = 'x-agent-session-id';
+const AGENT_TOOL_HEADER = 'x-agent-tool';
+
+// Match text literally in an ilike pattern
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+// Page size for ListTodos when the model doesn't ask for one, and the most it may ask for
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+interface ListTodosArgs {
+  category?: string;
+  completed?: boolean;
+  search?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  sort?: 'newest' | 'oldest' | 'title';
+  limit?: number;
+  cursor?: string;
+  format?: 'table' | 'json';
+}
+
+// A todo as ListTodos reports it: the category by name, nothing the model doesn't need
+interface ListedTodo {
+  id: string;
+  title: string;
+  completed: boolean;
+  category: string | null;
+  created_at: string;
+}
+
+/**
+ * A page of todos as a tab-separated table under a line saying which rows of how
+ * many these are and how to get the next page. Far fewer tokens than JSON.
+ */
+function formatTodoTable(todos: ListedTodo[], total: number, offset: number, nextCursor: string | null): string {
+  if (todos.length === 0) {
+    return offset === 0 ? 'No todos match' : `No more todos: all ${total} matching were listed`;
+  }
+  const clean = (text: string) => text.replace(/\s+/g, ' ');
+  const summary = `Todos ${offset + 1}-${offset + todos.length} of ${total}` +
+    (nextCursor ? `; for more, call again with cursor "${nextCursor}"` : '');
+  const rows = todos.map(todo =>
+    [todo.id, todo.completed ? 'x' : '', clean(todo.title), clean(todo.category ?? ''), todo.created_at.slice(0, 10)].join('\t')
+  );
+  return [summary, 'id\tdone\ttitle\tcategory\tcreated', ...rows].join('\n');
+}
+
+// A todo as stored, for a dry run to list with the plan's changes applied
+interface StoredTodo {
+  id: string;
+  title: string;
+  completed: boolean;
+  category_id: string | null;
+  created_at?: string; // missing on todos the plan adds
+}
+
+// Rows a dry run's ListTodos reads per request; the API returns at most 1000
+const STORED_TODO_PAGE = 1000;
+
+// Tool result for a write a dry run recorded instead of making
+function planned(text: string): ToolResult {
+  return { content: [{ type: 'text', text: `Dry run, nothing was changed. ${text}` }] };
+}
+
+// Memories aren't part of a change set, so a dry run can't propose changing them
+function refusedInDryRun(tool: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: `Error: ${tool} is not available in a dry run. Only todo and category changes can be proposed; memories are left as they are.` }],
+    isError: true
+  };
+}
+
+// MCP tool definitions for todo management.
+// With a plan (a dry run) the write tools record what they would do in it instead of doing it.
 export async function createMcpServer(
   db: SupabaseClient,
   userId: string,
-  modules: SdkModules
+  modules: SdkModules,
+  plan: ChangePlan | null = null
 ): Promise<unknown> {
   const { tool, createSdkMcpServer, z } = modules;
 
+  // Resolve a category by ID or case-insensitive name (RLS limits this to the user's own)
+  async function findCategory(ref: string): Promise<CategoryLookup> {
+    const { data, error } = await db.from('categories').select('id, name');
+    if (error) {
+      return { error: `Error: ${error.message}` };
+    }
+
+    const categories = plan ? plan.overlay('categories', data as Category[]) : data as Category[];
+    const byId = categories.find(c => c.id === ref);
+    if (byId) {
+      return { category: byId };
+    }
+
+    const matches = categories.filter(c => c.name.trim().toLowerCase() === ref.trim().toLowerCase());
+    if (matches.length === 1) {
+      return { category: matches[0] };
+    }
+    if (matches.length > 1) {
+      return { error: `Several categories are named "${ref}"; use one of their IDs: ${matches.map(c => c.id).join(', ')}` };
+    }
+    return { error: `No category named "${ref}". Use ListCategories to see the available categories.` };
+  }
+
+  // Dry run: a row as the plan would leave it, for a change to record against
+  async function loadRow(table: ChangeTable, id: string): Promise<RowLookup> {
+    const noun = table === 'todos' ? 'todo' : 'category';
+    const planned = plan?.row(table, id);
+    if (planned === null) {
+      return { error: `Error: ${noun} ${id} not found` };
+    }
+    if (planned) {
+      return { row: planned as PlannedRow };
+    }
+
+    const { data, error } = await db
+      .from(table)
+      .select(['id', ...PLANNED_FIELDS[table]].join(', '))
+      .eq('id', id)
+      .maybeSingle();
+    if (error) {
+      return { error: `Error: ${error.message}` };
+    }
+    if (!data) {
+      return { error: `Error: ${noun} ${id} not found` };
+    }
+    return { row: data as unknown as PlannedRow };
+  }
+
+  // Dry run: the todos matching ListTodos' filters as the plan would leave them, in its order
+  async function listPlannedTodos(
+    plan: ChangePlan,
+    args: ListTodosArgs,
+    categoryId: string | undefined,
+    range: Partial<Record<'createdAfter' | 'createdBefore', string>>
+  ): Promise<{ todos: ListedTodo[] } | { error: string }> {
+    const stored: StoredTodo[] = [];
+    for (let from = 0; ; from += STORED_TODO_PAGE) {
+      const { data, error } = await db
+        .from('todos')
+        .select('id, title, completed, category_id, created_at')
+        .order('id')
+        .range(from, from + STORED_TODO_PAGE - 1);
+      if (error) {
+        return { error: `Error: ${error.message}` };
+      }
+      stored.push(...data as StoredTodo[]);
+      if (data.length < STORED_TODO_PAGE) break;
+    }
+    const { data: categories, error } = await db.from('categories').select('id, name');
+    if (error) {
+      return { error: `Error: ${error.message}` };
+    }
+    const names = new Map(plan.overlay('categories', categories as Category[]).map(c => [c.id, c.name]));
+
+    // Todos the plan adds count as created now
+    const now = new Date().toISOString();
+    const search = args.search?.trim().toLowerCase();
+    const after = range.createdAfter ? Date.parse(range.createdAfter) : null;
+    const before = range.createdBefore ? Date.parse(range.createdBefore) : null;
+    const todos = plan.overlay('todos', stored)
+      .map(todo => ({ ...todo, created_at: todo.created_at ?? now }))
+      .filter(todo =>
+        (categoryId === undefined || todo.category_id === categoryId) &&
+        (args.completed === undefined || todo.completed === args.completed) &&
+        (!search || todo.title.toLowerCase().includes(search)) &&
+        (after === null || Date.parse(todo.created_at) >= after) &&
+        (before === null || Date.parse(todo.created_at) < before)
+      );
+
+    const sort = args.sort ?? 'newest';
+    const byId = (a: StoredTodo, b: StoredTodo) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+    todos.sort((a, b) => {
+      if (sort === 'title') {
+        return a.title.localeCompare(b.title) || byId(a, b);
+      }
+      const age = Date.parse(a.created_at) - Date.parse(b.created_at);
+      return (sort === 'oldest' ? age : -age) || byId(a, b);
+    });
+
+    return {
+      todos: todos.map(todo => ({
+        id: todo.id,
+        title: todo.title,
+        completed: todo.completed,
+        category: todo.category_id ? names.get(todo.category_id) ?? null : null,
+        created_at: todo.created_at
+      }))
+    };
+  }
+
   const listTodos = tool(
     'ListTodos',
-    'List all todos for the current user, optionally filtered by category or completion status',
+    'List the current user\'s todos a page at a time, with the total number that match. ' +
+      'Filter by category, completion status, text in the title or when they were created. ' +
+      'To see more, call again with the same filters and the nextCursor from the previous page.',
     {
-      categoryId: z.string().optional().describe('Filter by category ID'),
-      completed: z.boolean().optional().describe('Filter by completion status')
+      category: z.string().optional().describe('Filter by category name or ID'),
+      completed: z.boolean().optional().describe('Filter by completion status'),
+      search: z.string().optional().describe('Only todos whose title contains this text (case-insensitive)'),
+      createdAfter: z.string().optional().describe('Only todos created at or after this ISO date or date-time'),
+      createdBefore: z.string().optional().describe('Only todos created before this ISO date or date-time'),
+      sort: z.enum(['newest', 'oldest', 'title']).optional().describe('Order of the results (default newest first)'),
+      limit: z.number().int().min(1).max(MAX_LIST_LIMIT).optional()
+        .describe(`Todos per page (default ${DEFAULT_LIST_LIMIT})`),
+      cursor: z.string().optional().describe('The nextCursor from the previous page; omit for the first page'),
+      format: z.enum(['table', 'json']).optional()
+        .describe('table (default): one tab-separated line per todo; json: an object with the page and its totals')
     },
-    async (args: { categoryId?: string; completed?: boolean }) => {
+    async (args: ListTodosArgs) => {
       try {
-        let q = db.from('todos').select('*, categories(name)');
-        if (args.categoryId) q = q.eq('category_id', args.categoryId);
+        const offset = args.cursor === undefined ? 0 : Number(args.cursor);
+        if (!Number.isInteger(offset) || offset < 0) {
+          return { content: [{ type: 'text', text: `Error: invalid cursor "${args.cursor}"; pass the nextCursor from a previous page` }], isError: true };
+        }
+        const range: Partial<Record<'createdAfter' | 'createdBefore', string>> = {};
+        for (const key of ['createdAfter', 'createdBefore'] as const) {
+          const value = args[key];
+          if (value === undefined) continue;
+          const time = Date.parse(value);
+          if (Number.isNaN(time)) {
+            return { content: [{ type: 'text', text: `Error: ${key} "${value}" is not an ISO date` }], isError: true };
+          }
+          range[key] = new Date(time).toISOString();
+        }
+        const limit = args.limit ?? DEFAULT_LIST_LIMIT;
+
+        let categoryId: string | undefined;
+        if (args.category) {
+          const lookup = await findCategory(args.category);
+          if ('error' in lookup) {
+            return { content: [{ type: 'text', text: lookup.error }], isError: true };
+          }
+          categoryId = lookup.category.id;
+        }
+
+        // A dry run lists todos with its proposed changes, so later steps build on them
+        if (plan) {
+          const listed = await listPlannedTodos(plan, args, categoryId, range);
+          if ('error' in listed) {
+            return { content: [{ type: 'text', text: listed.error }], isError: true };
+          }
+          const todos = listed.todos.slice(offset, offset + limit);
+          const total = listed.todos.length;
+          const nextCursor = offset + todos.length < total ? String(offset + todos.length) : null;
+          if (args.format === 'json') {
+            return { content: [{ type: 'text', text: JSON.stringify({ total, offset, nextCursor, todos }) }] };
+          }
+          return { content: [{ type: 'text', text: formatTodoTable(todos, total, offset, nextCursor) }] };
+        }
+
+        let q = db.from('todos').select('id, title, completed, created_at, categories(name)', { count: 'exact' });
+        if (categoryId) q = q.eq('category_id', categoryId);
         if (args.completed !== undefined) q = q.eq('completed', args.completed);
-        const { data, error } = await q.order('created_at', { ascending: false });
+        if (args.search?.trim()) q = q.ilike('title', `%${escapeLike(args.search.trim())}%`);
+        if (range.createdAfter) q = q.gte('created_at', range.createdAfter);
+        if (range.createdBefore) q = q.lt('created_at', range.createdBefore);
+
+        // The ID breaks ties so pages don't overlap or skip rows with the same sort key
+        const sort = args.sort ?? 'newest';
+        q = sort === 'title'
+          ? q.order('title').order('id')
+          : q.order('created_at', { ascending: sort === 'oldest' }).order('id');
+        const { data, count, error } = await q.range(offset, offset + limit - 1);
 
         if (error) {
           return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
         }
-        return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+        const total = count ?? data.length;
+        const todos: ListedTodo[] = data.map(todo => ({
+          id: todo.id,
+          title: todo.title,
+          completed: todo.completed,
+          category: (todo.categories as { name?: string } | null)?.name ?? null,
+          created_at: todo.created_at
+        }));
+        const nextCursor = offset + todos.length < total ? String(offset + todos.length) : null;
+
+        if (args.format === 'json') {
+          return { content: [{ type: 'text', text: JSON.stringify({ total, offset, nextCursor, todos }) }] };
+        }
+        return { content: [{ type: 'text', text: formatTodoTable(todos, total, offset, nextCursor) }] };
       } catch (err) {
         return { content: [{ type: 'text', text: `Exception: ${err}` }], isError: true };
       }
@@ -55,18 +332,34 @@ export async function createMcpServer(
     'Create a new todo item for the current user',
     {
       title: z.string().describe('The todo title'),
-      categoryId: z.string().optional().describe('Optional category ID')
+      category: z.string().optional().describe('Optional category name or ID')
     },
-    async (args: { title: string; categoryId?: string }) => {
+    async (args: { title: string; category?: string }) => {
+      let categoryId: string | undefined;
+      if (args.category) {
+        const lookup = await findCategory(args.category);
+        if ('error' in lookup) {
+          return { content: [{ type: 'text', text: lookup.error }], isError: true };
+        }
+        categoryId = lookup.category.id;
+      }
+
+      if (plan) {
+        const fields = { title: args.title, completed: false, category_id: categoryId ?? null };
+        const id = plan.insert('AddTodo', 'todos', fields);
+        return planned(`Would create todo: ${JSON.stringify({ id, ...fields })}`);
+      }
+
       const { data, error } = await db
         .from('todos')
         .insert({
           title: args.title,
-          category_id: args.categoryId,
+          category_id: categoryId,
           user_id: userId
         })
         .select()
-        .single();
+        .single()
+        .setHeader(AGENT_TOOL_HEADER, 'AddTodo');
 
       if (error) {
         return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
@@ -82,7 +375,20 @@ export async function createMcpServer(
       id: z.string().describe('The todo ID to delete')
     },
     async (args: { id: string }) => {
-      const { error } = await db.from('todos').delete().eq('id', args.id);
+      if (plan) {
+        const lookup = await loadRow('todos', args.id);
+        if ('error' in lookup) {
+          return { content: [{ type: 'text', text: lookup.error }], isError: true };
+        }
+        plan.delete('DeleteTodo', 'todos', lookup.row);
+        return planned(`Would delete todo ${args.id}`);
+      }
+
+      const { error } = await db
+        .from('todos')
+        .delete()
+        .eq('id', args.id)
+        .setHeader(AGENT_TOOL_HEADER, 'DeleteTodo');
 
       if (error) {
         return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
@@ -99,12 +405,75 @@ export async function createMcpServer(
       completed: z.boolean().describe('The new completion status')
     },
     async (args: { id: string; completed: boolean }) => {
+      if (plan) {
+        const lookup = await loadRow('todos', args.id);
+        if ('error' in lookup) {
+          return { content: [{ type: 'text', text: lookup.error }], isError: true };
+        }
+        plan.update('ToggleTodo', 'todos', lookup.row, { completed: args.completed });
+        return planned(`Would update todo: ${JSON.stringify({ ...lookup.row, completed: args.completed })}`);
+      }
+
       const { data, error } = await db
         .from('todos')
         .update({ completed: args.completed })
         .eq('id', args.id)
         .select()
-        .single();
+        .single()
+        .setHeader(AGENT_TOOL_HEADER, 'ToggleTodo');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: `Updated todo: ${JSON.stringify(data)}` }] };
+    }
+  );
+
+  const updateTodo = tool(
+    'UpdateTodo',
+    'Rename a todo and/or move it to another category (only works for current user\'s todos)',
+    {
+      id: z.string().describe('The todo ID'),
+      title: z.string().optional().describe('The new title'),
+      category: z.string().nullable().optional().describe('Category name or ID to move the todo to, or null to remove its category')
+    },
+    async (args: { id: string; title?: string; category?: string | null }) => {
+      const changes: { title?: string; category_id?: string | null } = {};
+      if (args.title !== undefined) {
+        if (!args.title.trim()) {
+          return { content: [{ type: 'text', text: 'Error: title cannot be empty' }], isError: true };
+        }
+        changes.title = args.title;
+      }
+      if (args.category === null) {
+        changes.category_id = null;
+      } else if (args.category !== undefined) {
+        const lookup = await findCategory(args.category);
+        if ('error' in lookup) {
+          return { content: [{ type: 'text', text: lookup.error }], isError: true };
+        }
+        changes.category_id = lookup.category.id;
+      }
+      if (Object.keys(changes).length === 0) {
+        return { content: [{ type: 'text', text: 'Error: nothing to update; pass a title and/or category' }], isError: true };
+      }
+
+      if (plan) {
+        const lookup = await loadRow('todos', args.id);
+        if ('error' in lookup) {
+          return { content: [{ type: 'text', text: lookup.error }], isError: true };
+        }
+        plan.update('UpdateTodo', 'todos', lookup.row, changes);
+        return planned(`Would update todo: ${JSON.stringify({ ...lookup.row, ...changes })}`);
+      }
+
+      const { data, error } = await db
+        .from('todos')
+        .update(changes)
+        .eq('id', args.id)
+        .select('*, categories(name)')
+        .single()
+        .setHeader(AGENT_TOOL_HEADER, 'UpdateTodo');
 
       if (error) {
         return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
@@ -113,9 +482,395 @@ export async function createMcpServer(
     }
   );
 
+  // Resolve the category names used in a batch up front; the RPCs only take IDs
+  async function resolveBatchCategories(
+    refs: Array<string | null | undefined>
+  ): Promise<{ ids: Map<string, string> } | { errors: Array<{ index: number; ok: false; error: string }> }> {
+    const ids = new Map<string, string>();
+    const errors: Array<{ index: number; ok: false; error: string }> = [];
+    for (const [index, ref] of refs.entries()) {
+      if (!ref || ids.has(ref)) continue;
+      const lookup = await findCategory(ref);
+      if ('error' in lookup) {
+        errors.push({ index, ok: false, error: lookup.error });
+      } else {
+        ids.set(ref, lookup.category.id);
+      }
+    }
+    return errors.length > 0 ? { errors } : { ids };
+  }
+
+  const bulkAddTodos = tool(
+    'BulkAddTodos',
+    'Create many todos at once. All-or-nothing: if any item fails, none are created. Reports a result per item.',
+    {
+      items: z.array(z.object({
+        title: z.string().describe('The todo title'),
+        category: z.string().optional().describe('Optional category name or ID')
+      })).min(1).max(500).describe('The todos to create')
+    },
+    async (args: { items: Array<{ title: string; category?: string }> }) => {
+      const resolved = await resolveBatchCategories(args.items.map(item => item.category));
+      if ('errors' in resolved) {
+        return { content: [{ type: 'text', text: JSON.stringify({ applied: false, results: resolved.errors }, null, 2) }], isError: true };
+      }
+
+      if (plan) {
+        const failures = args.items.flatMap((item, index) =>
+          item.title.trim() ? [] : [{ index, ok: false, error: 'title is required' }]
+        );
+        if (failures.length > 0) {
+          return { content: [{ type: 'text', text: JSON.stringify({ applied: false, results: failures }, null, 2) }], isError: true };
+        }
+        const results = args.items.map((item, index) => {
+          const fields = {
+            title: item.title,
+            completed: false,
+            category_id: item.category ? resolved.ids.get(item.category) ?? null : null
+          };
+          return { index, ok: true, todo: { id: plan.insert('BulkAddTodos', 'todos', fields), ...fields } };
+        });
+        return planned(JSON.stringify({ applied: false, dryRun: true, results }, null, 2));
+      }
+
+      const { data, error } = await db.rpc('bulk_add_todos', {
+        items: args.items.map(item => ({
+          title: item.title,
+          category_id: item.category ? resolved.ids.get(item.category) : null
+        }))
+      }).setHeader(AGENT_TOOL_HEADER, 'BulkAddTodos');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }], isError: !data.applied };
+    }
+  );
+
+  const bulkUpdateTodos = tool(
+    'BulkUpdateTodos',
+    'Update many todos at once (title, completion and/or category). All-or-nothing: if any item fails, none are changed. Reports a result per item.',
+    {
+      items: z.array(z.object({
+        id: z.string().describe('The todo ID'),
+        title: z.string().optional().describe('The new title'),
+        completed: z.boolean().optional().describe('The new completion status'),
+        category: z.string().nullable().optional().describe('Category name or ID to move the todo to, or null to remove its category')
+      })).min(1).max(500).describe('The changes to apply; omitted fields are left unchanged')
+    },
+    async (args: { items: Array<{ id: string; title?: string; completed?: boolean; category?: string | null }> }) => {
+      const resolved = await resolveBatchCategories(args.items.map(item => item.category));
+      if ('errors' in resolved) {
+        return { content: [{ type: 'text', text: JSON.stringify({ applied: false, results: resolved.errors }, null, 2) }], isError: true };
+      }
+
+      const items = args.items.map(item => ({
+        id: item.id,
+        ...(item.title !== undefined && { title: item.title }),
+        ...(item.completed !== undefined && { completed: item.completed }),
+        ...(item.category !== undefined && {
+          category_id: item.category === null ? null : resolved.ids.get(item.category)
+        })
+      }));
+
+      if (plan) {
+        // All-or-nothing like the RPC: check every item before recording any
+        const rows: PlannedRow[] = [];
+        const failures: Array<{ index: number; ok: false; error: string }> = [];
+        for (const [index, item] of items.entries()) {
+          const lookup = await loadRow('todos', item.id);
+          if ('error' in lookup) {
+            failures.push({ index, ok: false, error: lookup.error });
+          } else if (item.title !== undefined && !item.title.trim()) {
+            failures.push({ index, ok: false, error: 'title cannot be empty' });
+          } else {
+            rows.push(lookup.row);
+          }
+        }
+        if (failures.length > 0) {
+          return { content: [{ type: 'text', text: JSON.stringify({ applied: false, results: failures }, null, 2) }], isError: true };
+        }
+        const results = items.map((item, index) => {
+          const fields = Object.fromEntries(Object.entries(item).filter(([field]) => field !== 'id'));
+          plan.update('BulkUpdateTodos', 'todos', rows[index], fields);
+          return { index, ok: true, todo: { ...rows[index], ...fields } };
+        });
+        return planned(JSON.stringify({ applied: false, dryRun: true, results }, null, 2));
+      }
+
+      const { data, error } = await db
+        .rpc('bulk_update_todos', { items })
+        .setHeader(AGENT_TOOL_HEADER, 'BulkUpdateTodos');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }], isError: !data.applied };
+    }
+  );
+
+  const bulkDeleteTodos = tool(
+    'BulkDeleteTodos',
+    'Delete many todos at once by ID. All-or-nothing: if any item fails, none are deleted. Reports a result per item.',
+    {
+      ids: z.array(z.string()).min(1).max(500).describe('The todo IDs to delete')
+    },
+    async (args: { ids: string[] }) => {
+      if (plan) {
+        const rows: PlannedRow[] = [];
+        const failures: Array<{ index: number; ok: false; error: string }> = [];
+        for (const [index, id] of args.ids.entries()) {
+          const lookup = await loadRow('todos', id);
+          if ('error' in lookup) {
+            failures.push({ index, ok: false, error: lookup.error });
+          } else {
+            rows.push(lookup.row);
+          }
+        }
+        if (failures.length > 0) {
+          return { content: [{ type: 'text', text: JSON.stringify({ applied: false, results: failures }, null, 2) }], isError: true };
+        }
+        const results = rows.map((row, index) => {
+          plan.delete('BulkDeleteTodos', 'todos', row);
+          return { index, ok: true, todo: row };
+        });
+        return planned(JSON.stringify({ applied: false, dryRun: true, results }, null, 2));
+      }
+
+      const { data, error } = await db
+        .rpc('bulk_delete_todos', { ids: args.ids })
+        .setHeader(AGENT_TOOL_HEADER, 'BulkDeleteTodos');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }], isError: !data.applied };
+    }
+  );
+
+  const listCategories = tool(
+    'ListCategories',
+    'List the current user\'s categories with how many todos each contains',
+    {},
+    async () => {
+      const { data, error } = await db
+        .from('categories')
+        .select('id, name, created_at, todos(count)')
+        .order('name');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+    }
+  );
+
+  const addCategory = tool(
+    'AddCategory',
+    'Create a new category for the current user',
+    {
+      name: z.string().describe('The category name')
+    },
+    async (args: { name: string }) => {
+      const name = args.name.trim();
+      if (!name) {
+        return { content: [{ type: 'text', text: 'Error: name cannot be empty' }], isError: true };
+      }
+
+      // Names are how the model refers to categories, so keep them unambiguous
+      const existing = await findCategory(name);
+      if ('category' in existing) {
+        return { content: [{ type: 'text', text: `Error: a category named "${existing.category.name}" already exists (${existing.category.id})` }], isError: true };
+      }
+
+      if (plan) {
+        const id = plan.insert('AddCategory', 'categories', { name });
+        return planned(`Would create category: ${JSON.stringify({ id, name })}`);
+      }
+
+      const { data, error } = await db
+        .from('categories')
+        .insert({ name, user_id: userId })
+        .select()
+        .single()
+        .setHeader(AGENT_TOOL_HEADER, 'AddCategory');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: `Created category: ${JSON.stringify(data)}` }] };
+    }
+  );
+
+  const renameCategory = tool(
+    'RenameCategory',
+    'Rename one of the current user\'s categories',
+    {
+      category: z.string().describe('The category name or ID'),
+      name: z.string().describe('The new name')
+    },
+    async (args: { category: string; name: string }) => {
+      const name = args.name.trim();
+      if (!name) {
+        return { content: [{ type: 'text', text: 'Error: name cannot be empty' }], isError: true };
+      }
+
+      const lookup = await findCategory(args.category);
+      if ('error' in lookup) {
+        return { content: [{ type: 'text', text: lookup.error }], isError: true };
+      }
+      const clash = await findCategory(name);
+      if ('category' in clash && clash.category.id !== lookup.category.id) {
+        return { content: [{ type: 'text', text: `Error: a category named "${clash.category.name}" already exists` }], isError: true };
+      }
+
+      if (plan) {
+        plan.update('RenameCategory', 'categories', { ...lookup.category }, { name });
+        return planned(`Would rename category: ${JSON.stringify({ id: lookup.category.id, name })}`);
+      }
+
+      const { data, error } = await db
+        .from('categories')
+        .update({ name })
+        .eq('id', lookup.category.id)
+        .select()
+        .single()
+        .setHeader(AGENT_TOOL_HEADER, 'RenameCategory');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: `Renamed category: ${JSON.stringify(data)}` }] };
+    }
+  );
+
+  const deleteCategory = tool(
+    'DeleteCategory',
+    'Delete one of the current user\'s categories; its todos are kept but lose their category',
+    {
+      category: z.string().describe('The category name or ID')
+    },
+    async (args: { category: string }) => {
+      const lookup = await findCategory(args.category);
+      if ('error' in lookup) {
+        return { content: [{ type: 'text', text: lookup.error }], isError: true };
+      }
+
+      if (plan) {
+        plan.delete('DeleteCategory', 'categories', { ...lookup.category });
+        return planned(`Would delete category "${lookup.category.name}" (${lookup.category.id}); its todos would lose their category`);
+      }
+
+      const { error } = await db
+        .from('categories')
+        .delete()
+        .eq('id', lookup.category.id)
+        .setHeader(AGENT_TOOL_HEADER, 'DeleteCategory');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: `Deleted category "${lookup.category.name}" (${lookup.category.id})` }] };
+    }
+  );
+
+  const remember = tool(
+    'Remember',
+    'Save a lasting fact or preference about the user (e.g. "shops on Saturdays") so future sessions know it',
+    {
+      content: z.string().describe('What to remember, as a short self-contained sentence')
+    },
+    async (args: { content: string }) => {
+      const content = args.content.trim();
+      if (!content) {
+        return { content: [{ type: 'text', text: 'Error: content cannot be empty' }], isError: true };
+      }
+      if (content.length > MAX_MEMORY_LENGTH) {
+        return { content: [{ type: 'text', text: `Error: keep memories under ${MAX_MEMORY_LENGTH} characters` }], isError: true };
+      }
+      if (plan) {
+        return refusedInDryRun('Remember');
+      }
+
+      const { data: existing, error: existingError } = await db
+        .from('agent_memories')
+        .select('id, content')
+        .ilike('content', escapeLike(content));
+      if (existingError) {
+        return { content: [{ type: 'text', text: `Error: ${existingError.message}` }], isError: true };
+      }
+      if (existing.length > 0) {
+        return { content: [{ type: 'text', text: `Already remembered: ${JSON.stringify(existing[0])}` }] };
+      }
+
+      const { data, error } = await db
+        .from('agent_memories')
+        .insert({ content, user_id: userId })
+        .select('id, content, created_at')
+        .single();
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: `Remembered: ${JSON.stringify(data)}` }] };
+    }
+  );
+
+  const recall = tool(
+    'Recall',
+    'Search what you have remembered about the user, newest first',
+    {
+      query: z.string().optional().describe('Text to look for; omit to list everything')
+    },
+    async (args: { query?: string }) => {
+      let q = db.from('agent_memories').select('id, content, created_at');
+      if (args.query?.trim()) {
+        q = q.ilike('content', `%${escapeLike(args.query.trim())}%`);
+      }
+      const { data, error } = await q.order('created_at', { ascending: false });
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: data.length > 0 ? JSON.stringify(data, null, 2) : 'Nothing remembered yet' }] };
+    }
+  );
+
+  const forget = tool(
+    'Forget',
+    'Delete something you remembered about the user that is wrong or no longer applies',
+    {
+      id: z.string().describe('The memory ID (from Recall or the list in your instructions)')
+    },
+    async (args: { id: string }) => {
+      if (plan) {
+        return refusedInDryRun('Forget');
+      }
+
+      const { data, error } = await db
+        .from('agent_memories')
+        .delete()
+        .eq('id', args.id)
+        .select('id, content');
+
+      if (error) {
+        return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
+      }
+      if (data.length === 0) {
+        return { content: [{ type: 'text', text: `Error: memory ${args.id} not found` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: `Forgot: ${data[0].content}` }] };
+    }
+  );
+
   return createSdkMcpServer({
     name: 'todos',
     version: '1.0.0',
-    tools: [listTodos, addTodo, deleteTodo, toggleTodo]
+    tools: [
+      listTodos, addTodo, deleteTodo, toggleTodo, updateTodo,
+      bulkAddTodos, bulkUpdateTodos, bulkDeleteTodos,
+      listCategories, addCategory, renameCategory, deleteCategory,
+      remember, recall, forget
+    ]
   });
 }
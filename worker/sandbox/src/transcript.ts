@@ -0,0 +1,65 @@
+// Buffers channel traffic and appends it to the session transcript via the worker
+// The worker stores each flush as an append-only chunk in R2
+
+export interface TranscriptEntry {
+  event: 'agent_message' | 'user_message';
+  payload: Record<string, unknown>;
+  timestamp: number;
+}
+
+const FLUSH_DELAY_MS = 1000;
+
+export class TranscriptWriter {
+  private endpoint: string;
+  private accessToken: string;
+  private buffer: TranscriptEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(workerUrl: string, sessionId: string, accessToken: string) {
+    this.endpoint = `${workerUrl}/api/agent/sessions/${sessionId}/transcript`;
+    this.accessToken = accessToken;
+  }
+
+  append(event: TranscriptEntry['event'], payload: Record<string, unknown>): void {
+    this.buffer.push({ event, payload, timestamp: Date.now() });
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => { void this.flush(); }, FLUSH_DELAY_MS);
+    }
+  }
+
+  // Write buffered entries; flushes are chained so chunks land in order
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.buffer.length === 0) {
+      return this.pending;
+    }
+
+    const entries = this.buffer;
+    this.buffer = [];
+    this.pending = this.pending.then(() => this.post(entries));
+    return this.pending;
+  }
+
+  private async post(entries: TranscriptEntry[]): Promise<void> {
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.accessToken}`
+        },
+        body: JSON.stringify({ entries })
+      });
+      if (!response.ok) {
+        console.error('Transcript append failed:', response.status, await response.text());
+      }
+    } catch (err) {
+      // Transcript persistence is best-effort; never break the agent over it
+      console.error('Transcript append error:', err);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// Reports the token usage and cost of each SDK result to the worker, which
+// records it in the agent_usage table for accounting and budgets
+
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+
+export class UsageReporter {
+  private endpoint: string;
+  private usageToken: string;
+  private model: string;
+  private reportedCostUsd = 0;
+
+  // The usage token is the session's own secret; the user's JWT isn't accepted for usage
+  constructor(workerUrl: string, sessionId: string, usageToken: string, model: string) {
+    this.endpoint = `${workerUrl}/api/agent/sessions/${sessionId}/usage`;
+    this.usageToken = usageToken;
+    this.model = model;
+  }
+
+  // Best-effort: a lost report must not break the conversation
+  async report(result: SDKResultMessage): Promise<void> {
+    // Usage is per result, but the SDK's cost is a running total for the process
+    const costUsd = Math.max(0, result.total_cost_usd - this.reportedCostUsd);
+    this.reportedCostUsd = result.total_cost_usd;
+    // A result without a model call (e.g. interrupted right away) has nothing to account for
+    if (costUsd === 0) return;
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Usage-Token': this.usageToken
+        },
+        body: JSON.stringify({
+          model: this.model,
+          inputTokens: result.usage.input_tokens ?? 0,
+          outputTokens: result.usage.output_tokens ?? 0,
+          cacheReadInputTokens: result.usage.cache_read_input_tokens ?? 0,
+          cacheCreationInputTokens: result.usage.cache_creation_input_tokens ?? 0,
+          costUsd
+        })
+      });
+      if (!response.ok) {
+        console.error('Usage report failed:', response.status, await response.text());
+      }
+    } catch (err) {
+      console.error('Usage report error:', err);
+    }
+  }
+}
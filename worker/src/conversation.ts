@@ -0,0 +1,65 @@
+// Agent SDK conversation state stored in R2
+// The SDK keeps each conversation as a JSONL file inside the container, which is
+// lost when the sandbox sleeps. The agent uploads it after every turn so a
+// restarted sandbox can resume the same conversation.
+
+export interface ConversationState {
+  claudeSessionId: string; // Agent SDK session id, passed back as `resume`
+  path: string; // Location of the file relative to the SDK's config directory
+  content: string;
+}
+
+function conversationKey(sessionId: string): string {
+  return `sessions/${sessionId}/conversation.json`;
+}
+
+// Agent SDK session ids are UUIDs; they name the conversation file
+const CLAUDE_SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The SDK keeps a conversation at projects/<project dir>/<session id>.jsonl under its config directory
+const CONVERSATION_PATH_PATTERN = /^projects\/([A-Za-z0-9._-]+)\/([^/]+)\.jsonl$/;
+
+/**
+ * Validate state uploaded by the agent. The path is written back inside the container on
+ * resume, so it must be the session's own conversation file and nothing else.
+ */
+export function isConversationState(value: unknown): value is ConversationState {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as Record<string, unknown>;
+  if (typeof state.claudeSessionId !== 'string' || !CLAUDE_SESSION_ID_PATTERN.test(state.claudeSessionId)) return false;
+  if (typeof state.path !== 'string' || typeof state.content !== 'string') return false;
+
+  const match = state.path.match(CONVERSATION_PATH_PATTERN);
+  return !!match && match[1] !== '.' && match[1] !== '..' && match[2] === state.claudeSessionId;
+}
+
+/**
+ * Replace the stored state with the latest snapshot
+ */
+export async function saveConversation(
+  bucket: R2Bucket,
+  sessionId: string,
+  userId: string,
+  state: ConversationState
+): Promise<void> {
+  await bucket.put(conversationKey(sessionId), JSON.stringify(state), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: { userId }
+  });
+}
+
+/**
+ * Load the stored state, if the session has one
+ */
+export async function loadConversation(
+  bucket: R2Bucket,
+  sessionId: string
+): Promise<{ userId: string; state: ConversationState } | null> {
+  const object = await bucket.get(conversationKey(sessionId));
+  if (!object) return null;
+
+  const userId = object.customMetadata?.userId;
+  if (!userId) return null;
+
+  return { userId, state: await object.json<ConversationState>() };
+}
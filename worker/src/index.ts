@@ -1,32 +1,53 @@
 import { Sandbox, getSandbox } from '@cloudflare/sandbox';
 import { createClient } from '@supabase/supabase-js';
 import sandboxBundle from './sandbox-bundle.json';
+import { appendTranscript, isTranscriptEntry, readTranscript } from './transcript';
+import { isConversationState, loadConversation, saveConversation } from './conversation';
+import { AgentSession, type SessionRecord } from './session';
+import { overridePolicy, resolveOverrides, type AgentOverrides } from './overrides';
+import { UserQuota } from './quota';
+import { getBudgetStatus, isTurnUsage, recordTurnUsage, secondsUntilNextMonth } from './usage';
+
+export { AgentSession, UserQuota };
 
 // Helper to inject agent script into sandbox
 async function injectAgent(sandbox: ReturnType<typeof getSandbox>): Promise<void> {
   await sandbox.writeFile('/workspace/agent.js', sandboxBundle['agent.js']);
 }
 
-interface Env {
+export interface Env {
   SANDBOX: DurableObjectNamespace<AgentSandbox>;
+  SESSIONS: DurableObjectNamespace<AgentSession>;
+  USER_QUOTAS: DurableObjectNamespace<UserQuota>;
   SESSION_STORAGE: R2Bucket;
   ASSETS: Fetcher;
   SUPABASE_URL: string;
   SUPABASE_ANON_KEY: string;
+  SUPABASE_SERVICE_ROLE_KEY: string; // writes usage rows and reads budgets
   ANTHROPIC_API_KEY: string;
   ENVIRONMENT?: string;
 }
 
-// Map to track prompt session timeouts (sessionId -> timeout handle)
-const promptTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
-const PROMPT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-
 export class AgentSandbox extends Sandbox<Env> {
   // sleepAfter is configured per-session via the startProcess call
   // Default to 1 minute for interactive sessions
   sleepAfter = '1m';
 }
 
+/**
+ * Get the coordinator Durable Object for a session
+ */
+function getSession(env: Env, sessionId: string) {
+  return env.SESSIONS.get(env.SESSIONS.idFromName(sessionId));
+}
+
+/**
+ * Get the Durable Object enforcing a user's sandbox limits
+ */
+function getQuota(env: Env, userId: string) {
+  return env.USER_QUOTAS.get(env.USER_QUOTAS.idFromName(userId));
+}
+
 /**
  * Verify JWT token and extract user info
  */
@@ -54,11 +75,65 @@ function extractToken(request: Request): string | null {
   return authHeader.slice(7);
 }
 
+interface AuthenticatedUser {
+  userId: string;
+  token: string;
+}
+
+/**
+ * Authenticate the request's bearer token
+ * Returns the caller, or an error response to send back
+ */
+async function authenticate(request: Request, env: Env): Promise<AuthenticatedUser | Response> {
+  const token = extractToken(request);
+  if (!token) {
+    return errorResponse('Missing authorization token', 401);
+  }
+
+  const userInfo = await verifyToken(env, token);
+  if (!userInfo) {
+    return errorResponse('Invalid token', 401);
+  }
+
+  return { userId: userInfo.userId, token };
+}
+
+/**
+ * Look up a session and check that the caller owns it
+ * Returns the session record, or an error response to send back
+ */
+async function authorizeSession(env: Env, sessionId: string, userId: string): Promise<SessionRecord | Response> {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    return errorResponse('Invalid sessionId');
+  }
+
+  const record = await getSession(env, sessionId).getRecord();
+  if (!record) {
+    return errorResponse('Session not found', 404);
+  }
+  if (record.owner !== userId) {
+    return errorResponse('Forbidden', 403);
+  }
+
+  return record;
+}
+
+/**
+ * Compare secrets in constant time
+ */
+function tokensMatch(given: string, expected: string): boolean {
+  const encoder = new TextEncoder();
+  const a = encoder.encode(given);
+  const b = encoder.encode(expected);
+  return a.byteLength === b.byteLength && crypto.subtle.timingSafeEqual(a, b);
+}
+
 // CORS headers for frontend
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Expose-Headers': 'Retry-After',
 };
 
 function jsonResponse(data: object, status = 200): Response {
@@ -72,6 +147,17 @@ function errorResponse(message: string, status = 400): Response {
   return jsonResponse({ error: message }, status);
 }
 
+/**
+ * Refuse a start that would go over one of the user's limits: 429 for the quota,
+ * 402 for the monthly budget. `code` tells clients which limit was hit.
+ */
+function limitResponse(status: 402 | 429, code: string, message: string, retryAfter: number): Response {
+  return new Response(JSON.stringify({ error: message, code, retryAfter }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) }
+  });
+}
+
 /**
  * Transform localhost URLs for Docker container access
  * Inside Docker, localhost refers to the container, not the host
@@ -80,6 +166,151 @@ function toDockerUrl(url: string): string {
   return url.replace(/localhost|127\.0\.0\.1/, 'host.docker.internal');
 }
 
+// Session IDs are UUIDs (client-generated or issued here) and end up in R2 keys
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// How a prompt run handles dangerous tools; interactive sessions always ask
+const PERMISSION_POLICIES = ['ask', 'auto-approve', 'auto-deny'] as const;
+type PermissionPolicy = typeof PERMISSION_POLICIES[number];
+
+// Structured output schemas are passed to the agent through its environment, so keep them small
+const MAX_OUTPUT_SCHEMA_BYTES = 16 * 1024;
+
+/**
+ * Check an output schema before handing it to the agent. The SDK does the real
+ * validation; the final answer is always an object, so the schema must describe one.
+ */
+function isOutputSchema(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  if ((value as Record<string, unknown>).type !== 'object') return false;
+  return JSON.stringify(value).length <= MAX_OUTPUT_SCHEMA_BYTES;
+}
+
+// Where the user is, so the agent's system prompt can give the date and time in their terms
+interface ClientContext {
+  timezone?: string; // IANA name, e.g. 'Europe/Berlin'
+  locale?: string; // BCP 47 tag, e.g. 'de-DE'
+}
+
+/**
+ * Check the time zone and locale a start request sends; both are optional, unknown ones are rejected
+ */
+function resolveClientContext(body: { timezone?: unknown; locale?: unknown }): ClientContext | { error: string } {
+  const context: ClientContext = {};
+  if (body.timezone !== undefined) {
+    try {
+      if (typeof body.timezone !== 'string') throw new TypeError();
+      context.timezone = new Intl.DateTimeFormat('en-US', { timeZone: body.timezone }).resolvedOptions().timeZone;
+    } catch {
+      return { error: 'Invalid timezone: expected an IANA time zone name' };
+    }
+  }
+  if (body.locale !== undefined) {
+    try {
+      if (typeof body.locale !== 'string') throw new TypeError();
+      [context.locale] = Intl.getCanonicalLocales(body.locale);
+    } catch {
+      return { error: 'Invalid locale: expected a BCP 47 language tag' };
+    }
+  }
+  return context;
+}
+
+/**
+ * Name of the private Realtime channel for a session
+ * RLS on realtime.messages only lets the user in the name join it
+ */
+function sessionChannelName(userId: string, sessionId: string): string {
+  return `session:${userId}:${sessionId}`;
+}
+
+// Matches /api/agent/sessions/:id/transcript
+const TRANSCRIPT_PATH = /^\/api\/agent\/sessions\/([^/]+)\/transcript$/;
+
+// Matches /api/agent/sessions/:id/conversation
+const CONVERSATION_PATH = /^\/api\/agent\/sessions\/([^/]+)\/conversation$/;
+
+// Matches /api/agent/sessions/:id/usage
+const USAGE_PATH = /^\/api\/agent\/sessions\/([^/]+)\/usage$/;
+
+/**
+ * Refuse to start or keep a sandbox once the user has spent their monthly budget
+ * Returns an error response, or null if the user may go ahead
+ */
+async function checkBudget(env: Env, userId: string): Promise<Response | null> {
+  let budget;
+  try {
+    budget = await getBudgetStatus(env, userId);
+  } catch (e) {
+    console.error('Budget check failed:', e);
+    return errorResponse('Failed to check usage budget', 500);
+  }
+  if (!budget || budget.spentUsd < budget.limitUsd) {
+    return null;
+  }
+  return limitResponse(
+    402,
+    'budget_exceeded',
+    `Monthly budget of $${budget.limitUsd.toFixed(2)} used up ($${budget.spentUsd.toFixed(2)} spent)`,
+    secondsUntilNextMonth()
+  );
+}
+
+/**
+ * Whether an interactive session's agent process is still up in its sandbox
+ */
+async function isAgentRunning(env: Env, record: SessionRecord): Promise<boolean> {
+  if (record.mode !== 'interactive' || !record.processId || record.sandboxDestroyed) return false;
+  if (record.status === 'complete' || record.status === 'failed') return false;
+  try {
+    const proc = await getSandbox(env.SANDBOX, record.sessionId).getProcess(record.processId);
+    return proc?.status === 'running';
+  } catch (e) {
+    // The sandbox slept or is gone, so the agent has to be started again
+    console.log('Process lookup failed (sandbox may be asleep):', e);
+    return false;
+  }
+}
+
+// How long /stop lets an interrupted agent report its outcome and exit before killing it
+const STOP_GRACE_MS = 3000;
+const STOP_POLL_MS = 250;
+
+/**
+ * Wait for a process to exit on its own; true if it did within the time given
+ */
+async function waitForExit(sandbox: ReturnType<typeof getSandbox>, processId: string, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const proc = await sandbox.getProcess(processId);
+    if (!proc || (proc.status !== 'starting' && proc.status !== 'running')) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, STOP_POLL_MS));
+  }
+  return false;
+}
+
+/**
+ * End a session's agent process, after giving it `graceMs` to exit by itself, and mark the
+ * session ended; the coordinator tears the sandbox down
+ */
+async function stopAgent(env: Env, record: SessionRecord, graceMs = 0): Promise<void> {
+  if (record.processId) {
+    const sandbox = getSandbox(env.SANDBOX, record.sessionId);
+    try {
+      if (!await waitForExit(sandbox, record.processId, graceMs)) {
+        await sandbox.killProcess(record.processId);
+      }
+    } catch (e) {
+      // The process may already have exited
+      console.log('Kill process failed (process may have exited):', e);
+    }
+  }
+
+  await getSession(env, record.sessionId).markStopped();
+}
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
@@ -98,31 +329,83 @@ export default {
 
     // POST /api/agent/start - Start interactive session
     if (url.pathname === '/api/agent/start' && request.method === 'POST') {
-      const token = extractToken(request);
-      if (!token) {
-        return errorResponse('Missing authorization token', 401);
+      const userInfo = await authenticate(request, env);
+      if (userInfo instanceof Response) {
+        return userInfo;
       }
 
-      const userInfo = await verifyToken(env, token);
-      if (!userInfo) {
-        return errorResponse('Invalid token', 401);
-      }
-
-      let body: { sessionId?: string };
+      let body: { sessionId?: string; resume?: boolean; timezone?: unknown; locale?: unknown } & AgentOverrides;
       try {
         body = await request.json();
       } catch {
         return errorResponse('Invalid JSON body');
       }
 
-      if (!body.sessionId) {
-        return errorResponse('Missing sessionId');
+      const resolved = resolveOverrides(body, overridePolicy(env.ENVIRONMENT));
+      if ('error' in resolved) {
+        return errorResponse(resolved.error);
+      }
+
+      const clientContext = resolveClientContext(body);
+      if ('error' in clientContext) {
+        return errorResponse(clientContext.error);
+      }
+
+      // Sessions are claimed by the first user to start them; a missing sessionId gets a fresh one
+      const sessionId = body.sessionId ?? crypto.randomUUID();
+      if (!SESSION_ID_PATTERN.test(sessionId)) {
+        return errorResponse('Invalid sessionId');
+      }
+
+      // Check the user's limits before anything starts
+      const overBudget = await checkBudget(env, userInfo.userId);
+      if (overBudget) {
+        return overBudget;
+      }
+
+      const session = getSession(env, sessionId);
+      const previous = await session.getRecord();
+      const resume = body.resume === true;
+
+      // A remount or a tab coming back resumes a chat whose agent may still be up. Leave it running:
+      // the client catches up through the channel's resync, and nothing counts against the quota.
+      if (resume && previous?.owner === userInfo.userId && await isAgentRunning(env, previous)) {
+        console.log('Agent still running for session:', sessionId, 'process:', previous.processId);
+        await session.touch();
+        return jsonResponse({
+          status: 'running',
+          sessionId,
+          channelName: sessionChannelName(userInfo.userId, sessionId),
+          processId: previous.processId
+        });
+      }
+
+      const quota = getQuota(env, userInfo.userId);
+      const decision = await quota.acquire(sessionId);
+      if (!decision.allowed) {
+        return limitResponse(429, decision.reason, decision.message, decision.retryAfter);
       }
 
-      console.log('Starting interactive session:', body.sessionId, 'for user:', userInfo.userId);
+      const claimed = await session.claim(sessionId, userInfo.userId, 'interactive');
+      if (!claimed) {
+        await quota.release(sessionId);
+        return errorResponse('Session belongs to another user', 403);
+      }
+
+      console.log(resume ? 'Resuming' : 'Starting', 'interactive session:', sessionId, 'for user:', userInfo.userId);
 
       // Get sandbox instance for this session
-      const sandbox = getSandbox(env.SANDBOX, body.sessionId);
+      const sandbox = getSandbox(env.SANDBOX, sessionId);
+
+      // An agent left over from before (e.g. the tab was hidden) would answer twice on the channel
+      if (previous?.processId) {
+        try {
+          await sandbox.killProcess(previous.processId);
+        } catch (e) {
+          // The process exited or the sandbox slept
+          console.log('Kill previous process failed (process may have exited):', e);
+        }
+      }
 
       // Inject agent script into sandbox
       await injectAgent(sandbox);
@@ -131,11 +414,17 @@ export default {
       // Transform localhost URLs for Docker container access
       const agentConfig = {
         mode: 'interactive' as const,
-        sessionId: body.sessionId,
+        sessionId,
+        channelName: sessionChannelName(userInfo.userId, sessionId),
         userId: userInfo.userId,
-        accessToken: token,
+        accessToken: userInfo.token,
+        usageToken: claimed.usageToken,
         supabaseUrl: toDockerUrl(env.SUPABASE_URL),
-        supabaseKey: env.SUPABASE_ANON_KEY
+        supabaseKey: env.SUPABASE_ANON_KEY,
+        workerUrl: toDockerUrl(url.origin),
+        resume,
+        ...clientContext,
+        ...resolved.overrides
       };
 
       // Start the interactive agent process
@@ -153,47 +442,98 @@ export default {
         console.log('Started interactive agent process:', proc.id);
       } catch (startError) {
         console.error('Failed to start sandbox process:', startError);
+        await session.markFailed();
         return errorResponse('Failed to start agent: ' + (startError as Error).message, 500);
       }
 
+      await session.markStarted(proc.id);
+
       return jsonResponse({
-        status: 'started',
-        channelName: body.sessionId,
-        processId: proc.id
+        status: resume ? 'resumed' : 'started',
+        sessionId,
+        channelName: sessionChannelName(userInfo.userId, sessionId),
+        processId: proc.id,
+        overrides: resolved.overrides
       });
     }
 
     // POST /api/agent/prompt - Start non-interactive prompt session
     if (url.pathname === '/api/agent/prompt' && request.method === 'POST') {
-      const token = extractToken(request);
-      if (!token) {
-        return errorResponse('Missing authorization token', 401);
+      const userInfo = await authenticate(request, env);
+      if (userInfo instanceof Response) {
+        return userInfo;
       }
 
-      const userInfo = await verifyToken(env, token);
-      if (!userInfo) {
-        return errorResponse('Invalid token', 401);
-      }
-
-      let body: { sessionId?: string; prompt?: string };
+      let body: {
+        sessionId?: string;
+        prompt?: string;
+        permissionPolicy?: PermissionPolicy;
+        outputSchema?: unknown;
+        dryRun?: unknown;
+        timezone?: unknown;
+        locale?: unknown;
+      } & AgentOverrides;
       try {
         body = await request.json();
       } catch {
         return errorResponse('Invalid JSON body');
       }
 
-      if (!body.sessionId) {
-        return errorResponse('Missing sessionId');
-      }
-
       if (!body.prompt) {
         return errorResponse('Missing prompt');
       }
 
-      console.log('Starting prompt session:', body.sessionId, 'for user:', userInfo.userId);
+      const permissionPolicy = body.permissionPolicy ?? 'ask';
+      if (!PERMISSION_POLICIES.includes(permissionPolicy)) {
+        return errorResponse('Invalid permissionPolicy');
+      }
+
+      if (body.outputSchema !== undefined && !isOutputSchema(body.outputSchema)) {
+        return errorResponse(`Invalid outputSchema: expected a JSON Schema object with "type": "object", under ${MAX_OUTPUT_SCHEMA_BYTES} bytes`);
+      }
+
+      if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+        return errorResponse('Invalid dryRun: expected a boolean');
+      }
+
+      const resolved = resolveOverrides(body, overridePolicy(env.ENVIRONMENT));
+      if ('error' in resolved) {
+        return errorResponse(resolved.error);
+      }
+
+      const clientContext = resolveClientContext(body);
+      if ('error' in clientContext) {
+        return errorResponse(clientContext.error);
+      }
+
+      // Sessions are claimed by the first user to start them; a missing sessionId gets a fresh one
+      const sessionId = body.sessionId ?? crypto.randomUUID();
+      if (!SESSION_ID_PATTERN.test(sessionId)) {
+        return errorResponse('Invalid sessionId');
+      }
+
+      // Check the user's limits before anything starts
+      const overBudget = await checkBudget(env, userInfo.userId);
+      if (overBudget) {
+        return overBudget;
+      }
+      const quota = getQuota(env, userInfo.userId);
+      const decision = await quota.acquire(sessionId);
+      if (!decision.allowed) {
+        return limitResponse(429, decision.reason, decision.message, decision.retryAfter);
+      }
+
+      const session = getSession(env, sessionId);
+      const claimed = await session.claim(sessionId, userInfo.userId, 'non-interactive');
+      if (!claimed) {
+        await quota.release(sessionId);
+        return errorResponse('Session belongs to another user', 403);
+      }
+
+      console.log('Starting prompt session:', sessionId, 'for user:', userInfo.userId);
 
       // Get sandbox instance for this session
-      const sandbox = getSandbox(env.SANDBOX, body.sessionId);
+      const sandbox = getSandbox(env.SANDBOX, sessionId);
 
       // Inject agent script into sandbox
       await injectAgent(sandbox);
@@ -202,12 +542,20 @@ export default {
       // Transform localhost URLs for Docker container access
       const agentConfig = {
         mode: 'non-interactive' as const,
-        sessionId: body.sessionId,
+        sessionId,
+        channelName: sessionChannelName(userInfo.userId, sessionId),
         userId: userInfo.userId,
-        accessToken: token,
+        accessToken: userInfo.token,
+        usageToken: claimed.usageToken,
         supabaseUrl: toDockerUrl(env.SUPABASE_URL),
         supabaseKey: env.SUPABASE_ANON_KEY,
-        prompt: body.prompt
+        workerUrl: toDockerUrl(url.origin),
+        prompt: body.prompt,
+        permissionPolicy,
+        ...(body.outputSchema !== undefined && { outputSchema: body.outputSchema }),
+        ...(body.dryRun && { dryRun: true }),
+        ...clientContext,
+        ...resolved.overrides
       };
 
       // Start the prompt agent process
@@ -225,60 +573,37 @@ export default {
         console.log('Started non-interactive agent process:', proc.id);
       } catch (startError) {
         console.error('Failed to start non-interactive sandbox process:', startError);
+        await session.markFailed();
         return errorResponse('Failed to start prompt: ' + (startError as Error).message, 500);
       }
 
-      // Set up timeout monitoring for prompt sessions
-      // Subscribe to channel and destroy sandbox after 5 minutes of inactivity
-      const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
-      const channel = supabase.channel(body.sessionId, {
-        config: { broadcast: { ack: false, self: false } }
-      });
-
-      let lastActivity = Date.now();
-
-      // Listen for messages to reset timeout
-      channel.on('broadcast', { event: 'agent_message' }, () => {
-        lastActivity = Date.now();
-      });
-
-      channel.subscribe();
-
-      // Check for timeout every minute
-      const timeoutCheck = setInterval(async () => {
-        const inactiveMs = Date.now() - lastActivity;
-        if (inactiveMs >= PROMPT_TIMEOUT_MS) {
-          console.log('Prompt session timeout, destroying sandbox:', body.sessionId);
-          clearInterval(timeoutCheck);
-          promptTimeouts.delete(body.sessionId!);
-          await channel.unsubscribe();
-          try {
-            await sandbox.destroy();
-          } catch (e) {
-            console.log('Error destroying sandbox:', e);
-          }
-        }
-      }, 60000);
-
-      promptTimeouts.set(body.sessionId, timeoutCheck);
+      // The session coordinator destroys the sandbox after 5 minutes of inactivity
+      await session.markStarted(proc.id);
 
       return jsonResponse({
         status: 'started',
-        channelName: body.sessionId,
-        processId: proc.id
+        sessionId,
+        channelName: sessionChannelName(userInfo.userId, sessionId),
+        processId: proc.id,
+        overrides: resolved.overrides,
+        dryRun: !!body.dryRun
       });
     }
 
-    // POST /api/agent/keepalive - Reset sleep timer for interactive session
-    if (url.pathname === '/api/agent/keepalive' && request.method === 'POST') {
-      const token = extractToken(request);
-      if (!token) {
-        return errorResponse('Missing authorization token', 401);
+    // GET /api/agent/options - What this environment lets a request override
+    if (url.pathname === '/api/agent/options' && request.method === 'GET') {
+      const userInfo = await authenticate(request, env);
+      if (userInfo instanceof Response) {
+        return userInfo;
       }
+      return jsonResponse(overridePolicy(env.ENVIRONMENT));
+    }
 
-      const userInfo = await verifyToken(env, token);
-      if (!userInfo) {
-        return errorResponse('Invalid token', 401);
+    // POST /api/agent/keepalive - Reset sleep timer for interactive session
+    if (url.pathname === '/api/agent/keepalive' && request.method === 'POST') {
+      const userInfo = await authenticate(request, env);
+      if (userInfo instanceof Response) {
+        return userInfo;
       }
 
       let body: { sessionId?: string };
@@ -292,8 +617,25 @@ export default {
         return errorResponse('Missing sessionId');
       }
 
+      const record = await authorizeSession(env, body.sessionId, userInfo.userId);
+      if (record instanceof Response) {
+        return record;
+      }
+
       console.log('Keepalive for session:', body.sessionId);
 
+      // A long chat can spend past the budget after its start was allowed; end it once it has.
+      // A check that failed leaves the chat running.
+      const overBudget = await checkBudget(env, userInfo.userId);
+      if (overBudget?.status === 402) {
+        console.log('Budget used up, stopping session:', body.sessionId);
+        await stopAgent(env, record);
+        return overBudget;
+      }
+
+      // Reset the coordinator's idle timer
+      await getSession(env, body.sessionId).touch();
+
       // Get sandbox and run a command to reset the sleep timer
       const sandbox = getSandbox(env.SANDBOX, body.sessionId);
       try {
@@ -306,6 +648,165 @@ export default {
       return jsonResponse({ status: 'ok' });
     }
 
+    // POST /api/agent/stop - Kill the agent process for a session
+    if (url.pathname === '/api/agent/stop' && request.method === 'POST') {
+      const userInfo = await authenticate(request, env);
+      if (userInfo instanceof Response) {
+        return userInfo;
+      }
+
+      let body: { sessionId?: string };
+      try {
+        body = await request.json();
+      } catch {
+        return errorResponse('Invalid JSON body');
+      }
+
+      if (!body.sessionId) {
+        return errorResponse('Missing sessionId');
+      }
+
+      const record = await authorizeSession(env, body.sessionId, userInfo.userId);
+      if (record instanceof Response) {
+        return record;
+      }
+
+      console.log('Stopping session:', body.sessionId, 'process:', record.processId);
+      // A client that sent an interrupt first gets the agent's own shutdown if it is quick
+      await stopAgent(env, record, STOP_GRACE_MS);
+
+      return jsonResponse({ status: 'stopped' });
+    }
+
+    // GET/POST /api/agent/sessions/:id/transcript - Read or append a session transcript
+    const transcriptMatch = url.pathname.match(TRANSCRIPT_PATH);
+    if (transcriptMatch && (request.method === 'GET' || request.method === 'POST')) {
+      const userInfo = await authenticate(request, env);
+      if (userInfo instanceof Response) {
+        return userInfo;
+      }
+
+      const sessionId = transcriptMatch[1];
+      const record = await authorizeSession(env, sessionId, userInfo.userId);
+      if (record instanceof Response) {
+        return record;
+      }
+
+      if (request.method === 'GET') {
+        const transcript = await readTranscript(env.SESSION_STORAGE, sessionId);
+        if (!transcript) {
+          return errorResponse('Transcript not found', 404);
+        }
+        if (transcript.userId !== userInfo.userId) {
+          return errorResponse('Forbidden', 403);
+        }
+        return jsonResponse({ sessionId, entries: transcript.entries });
+      }
+
+      // POST is called by the agent (with the user's token) to append entries
+      let body: { entries?: unknown };
+      try {
+        body = await request.json();
+      } catch {
+        return errorResponse('Invalid JSON body');
+      }
+
+      if (!Array.isArray(body.entries) || !body.entries.every(isTranscriptEntry)) {
+        return errorResponse('Invalid transcript entries');
+      }
+
+      await appendTranscript(env.SESSION_STORAGE, sessionId, userInfo.userId, body.entries);
+
+      // Agent traffic doubles as the session's activity signal
+      await getSession(env, sessionId).recordActivity(
+        body.entries.map(entry => ({
+          event: entry.event,
+          type: entry.payload.type as string | undefined,
+          status: entry.payload.status as string | undefined
+        }))
+      );
+
+      return jsonResponse({ status: 'ok', count: body.entries.length });
+    }
+
+    // GET/PUT /api/agent/sessions/:id/conversation - Agent SDK state used to resume a session
+    const conversationMatch = url.pathname.match(CONVERSATION_PATH);
+    if (conversationMatch && (request.method === 'GET' || request.method === 'PUT')) {
+      const userInfo = await authenticate(request, env);
+      if (userInfo instanceof Response) {
+        return userInfo;
+      }
+
+      const sessionId = conversationMatch[1];
+      const record = await authorizeSession(env, sessionId, userInfo.userId);
+      if (record instanceof Response) {
+        return record;
+      }
+
+      if (request.method === 'GET') {
+        const stored = await loadConversation(env.SESSION_STORAGE, sessionId);
+        if (!stored) {
+          return errorResponse('Conversation not found', 404);
+        }
+        if (stored.userId !== userInfo.userId) {
+          return errorResponse('Forbidden', 403);
+        }
+        return jsonResponse(stored.state);
+      }
+
+      // PUT is called by the agent (with the user's token) after each turn
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return errorResponse('Invalid JSON body');
+      }
+
+      if (!isConversationState(body)) {
+        return errorResponse('Invalid conversation state');
+      }
+
+      await saveConversation(env.SESSION_STORAGE, sessionId, userInfo.userId, body);
+
+      return jsonResponse({ status: 'ok' });
+    }
+
+    // POST /api/agent/sessions/:id/usage - Token usage and cost, sent by the agent after each result
+    // Authenticated with the session's usage token rather than the user's JWT, so only the agent can report
+    const usageMatch = url.pathname.match(USAGE_PATH);
+    if (usageMatch && request.method === 'POST') {
+      const sessionId = usageMatch[1];
+      if (!SESSION_ID_PATTERN.test(sessionId)) {
+        return errorResponse('Invalid sessionId');
+      }
+
+      const record = await getSession(env, sessionId).getRecord();
+      const usageToken = request.headers.get('X-Usage-Token');
+      if (!record || !record.usageToken || !usageToken || !tokensMatch(usageToken, record.usageToken)) {
+        return errorResponse('Invalid usage token', 401);
+      }
+
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return errorResponse('Invalid JSON body');
+      }
+
+      if (!isTurnUsage(body, overridePolicy(env.ENVIRONMENT).models)) {
+        return errorResponse('Invalid usage');
+      }
+
+      try {
+        await recordTurnUsage(env, record.owner, sessionId, body);
+      } catch (e) {
+        console.error('Recording usage failed:', e);
+        return errorResponse('Failed to record usage', 500);
+      }
+
+      return jsonResponse({ status: 'ok' });
+    }
+
     // Serve static assets for all other routes (SPA fallback)
     // Try to fetch the exact path first, then fall back to index.html for SPA routing
     try {
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { overridePolicy, resolveOverrides, type OverridePolicy } from './overrides';
+
+const policy: OverridePolicy = {
+  models: ['model-a', 'model-b'],
+  maxTurns: 50,
+  maxSystemPromptAppend: 20,
+  tools: ['mcp__todos__ListTodos', 'mcp__todos__AddTodo']
+};
+
+describe('resolveOverrides', () => {
+  it('resolves the tools to the policy when none are asked for', () => {
+    expect(resolveOverrides({}, policy)).toEqual({ overrides: { allowedTools: policy.tools } });
+  });
+
+  it('rejects models the policy does not offer', () => {
+    expect(resolveOverrides({ model: 'model-c' }, policy))
+      .toEqual({ error: 'Invalid model: expected one of model-a, model-b' });
+    expect(resolveOverrides({ model: 42 }, policy)).toHaveProperty('error');
+    expect(resolveOverrides({ model: 'model-b' }, policy)).toMatchObject({ overrides: { model: 'model-b' } });
+  });
+
+  it('clamps the turn limit to the policy', () => {
+    expect(resolveOverrides({ maxTurns: 500 }, policy)).toMatchObject({ overrides: { maxTurns: 50 } });
+    expect(resolveOverrides({ maxTurns: 0 }, policy)).toMatchObject({ overrides: { maxTurns: 1 } });
+    expect(resolveOverrides({ maxTurns: 10 }, policy)).toMatchObject({ overrides: { maxTurns: 10 } });
+    expect(resolveOverrides({ maxTurns: 2.5 }, policy)).toEqual({ error: 'Invalid maxTurns: expected an integer' });
+  });
+
+  it('limits the system prompt addition', () => {
+    expect(resolveOverrides({ systemPromptAppend: 'x'.repeat(21) }, policy))
+      .toEqual({ error: 'systemPromptAppend is limited to 20 characters' });
+    expect(resolveOverrides({ systemPromptAppend: 'Be brief' }, policy))
+      .toMatchObject({ overrides: { systemPromptAppend: 'Be brief' } });
+    expect(resolveOverrides({ systemPromptAppend: '   ' }, policy)).not.toHaveProperty('overrides.systemPromptAppend');
+  });
+
+  it('drops tools outside the policy', () => {
+    expect(resolveOverrides({ allowedTools: ['mcp__todos__AddTodo', 'Bash'] }, policy))
+      .toEqual({ overrides: { allowedTools: ['mcp__todos__AddTodo'] } });
+    expect(resolveOverrides({ allowedTools: 'Bash' }, policy))
+      .toEqual({ error: 'Invalid allowedTools: expected an array of tool names' });
+  });
+});
+
+describe('overridePolicy', () => {
+  it('treats anything but dev and PR previews as production', () => {
+    expect(overridePolicy(undefined)).toBe(overridePolicy('production'));
+    expect(overridePolicy('staging')).toBe(overridePolicy('production'));
+    expect(overridePolicy('pr-12')).toBe(overridePolicy('dev'));
+    expect(overridePolicy('production').tools).not.toContain('Write');
+  });
+});
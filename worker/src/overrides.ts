@@ -0,0 +1,117 @@
+// Per-request agent settings and the per-environment policy that bounds them
+// Callers may pick the model, turn limit, extra system prompt and tools; each
+// environment decides which models and tools are on offer and how far the
+// limits can go, so a preview deploy can experiment without production following.
+
+export interface AgentOverrides {
+  model?: string;
+  maxTurns?: number;
+  systemPromptAppend?: string; // added after the agent's own system prompt
+  allowedTools?: string[]; // restricts the agent to these tools
+}
+
+export interface OverridePolicy {
+  models: string[]; // the first is the default
+  maxTurns: number; // default and upper bound
+  maxSystemPromptAppend: number; // characters
+  tools: string[]; // tools a request may enable
+}
+
+// The agent's todo tools (see TOOLS in sandbox/src/agent.ts)
+const TODO_TOOLS = [
+  'mcp__todos__ListTodos',
+  'mcp__todos__AddTodo',
+  'mcp__todos__DeleteTodo',
+  'mcp__todos__ToggleTodo',
+  'mcp__todos__UpdateTodo',
+  'mcp__todos__BulkAddTodos',
+  'mcp__todos__BulkUpdateTodos',
+  'mcp__todos__BulkDeleteTodos',
+  'mcp__todos__ListCategories',
+  'mcp__todos__AddCategory',
+  'mcp__todos__RenameCategory',
+  'mcp__todos__DeleteCategory'
+];
+
+// What the agent remembers about the user across sessions
+const MEMORY_TOOLS = [
+  'mcp__todos__Remember',
+  'mcp__todos__Recall',
+  'mcp__todos__Forget'
+];
+
+const PRODUCTION_POLICY: OverridePolicy = {
+  models: ['claude-sonnet-4-20250514'],
+  maxTurns: 100,
+  maxSystemPromptAppend: 2000,
+  tools: [...TODO_TOOLS, ...MEMORY_TOOLS, 'Skill', 'WebSearch']
+};
+
+const DEVELOPMENT_POLICY: OverridePolicy = {
+  models: ['claude-sonnet-4-20250514', 'claude-sonnet-4-5-20250929', 'claude-opus-4-20250514', 'claude-3-5-haiku-20241022'],
+  maxTurns: 200,
+  maxSystemPromptAppend: 8000,
+  tools: [...TODO_TOOLS, ...MEMORY_TOOLS, 'Skill', 'Read', 'Write', 'Edit', 'WebSearch']
+};
+
+/**
+ * Policy for a deployment: dev (including local runs, see .dev.vars.example) and PR previews
+ * are permissive; anything else, an unset ENVIRONMENT included, is production
+ */
+export function overridePolicy(environment: string | undefined): OverridePolicy {
+  if (environment === 'dev' || environment?.startsWith('pr-')) {
+    return DEVELOPMENT_POLICY;
+  }
+  return PRODUCTION_POLICY;
+}
+
+/**
+ * Check the overrides in a request body against the policy.
+ * Unknown models and oversized prompts are rejected; the turn limit is clamped
+ * and tools outside the allowlist are dropped. The tool list is always resolved, to the
+ * policy's tools when none is asked for, since the agent's own list is wider than production's.
+ * Returns the settings to apply or an error.
+ */
+export function resolveOverrides(
+  requested: { [K in keyof AgentOverrides]?: unknown },
+  policy: OverridePolicy
+): { overrides: AgentOverrides } | { error: string } {
+  const overrides: AgentOverrides = {};
+
+  if (requested.model !== undefined) {
+    if (typeof requested.model !== 'string' || !policy.models.includes(requested.model)) {
+      return { error: `Invalid model: expected one of ${policy.models.join(', ')}` };
+    }
+    overrides.model = requested.model;
+  }
+
+  if (requested.maxTurns !== undefined) {
+    if (typeof requested.maxTurns !== 'number' || !Number.isInteger(requested.maxTurns)) {
+      return { error: 'Invalid maxTurns: expected an integer' };
+    }
+    overrides.maxTurns = Math.min(Math.max(requested.maxTurns, 1), policy.maxTurns);
+  }
+
+  if (requested.systemPromptAppend !== undefined) {
+    if (typeof requested.systemPromptAppend !== 'string') {
+      return { error: 'Invalid systemPromptAppend: expected a string' };
+    }
+    if (requested.systemPromptAppend.length > policy.maxSystemPromptAppend) {
+      return { error: `systemPromptAppend is limited to ${policy.maxSystemPromptAppend} characters` };
+    }
+    if (requested.systemPromptAppend.trim()) {
+      overrides.systemPromptAppend = requested.systemPromptAppend;
+    }
+  }
+
+  if (requested.allowedTools !== undefined) {
+    if (!Array.isArray(requested.allowedTools) || !requested.allowedTools.every(tool => typeof tool === 'string')) {
+      return { error: 'Invalid allowedTools: expected an array of tool names' };
+    }
+    overrides.allowedTools = requested.allowedTools.filter(tool => policy.tools.includes(tool));
+  } else {
+    overrides.allowedTools = [...policy.tools];
+  }
+
+  return { overrides };
+}
@@ -0,0 +1,92 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from './index';
+
+export const MAX_CONCURRENT_SANDBOXES = 3; // live sandboxes per user
+export const MAX_STARTS_PER_MINUTE = 10; // /start and /prompt calls per user
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Suggested wait when every sandbox slot is taken; sessions free theirs when torn down
+const SLOT_RETRY_AFTER_SECONDS = 30;
+
+interface QuotaState {
+  sandboxes: Record<string, number>; // sessionId -> when its sandbox was started
+  starts: number[]; // start times within the rate window
+}
+
+export type QuotaDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'too_many_sessions' | 'rate_limited'; message: string; retryAfter: number };
+
+/**
+ * Per-user limits on agent sandboxes, keyed by userId.
+ * Every start is checked here first so one user can't use up the
+ * container instances shared by everyone.
+ */
+export class UserQuota extends DurableObject<Env> {
+  private async load(): Promise<QuotaState> {
+    return (await this.ctx.storage.get<QuotaState>('state')) ?? { sandboxes: {}, starts: [] };
+  }
+
+  private async save(state: QuotaState): Promise<void> {
+    await this.ctx.storage.put('state', state);
+  }
+
+  // Drop sandboxes whose session has already been torn down (e.g. a release that never arrived)
+  private async pruneSandboxes(state: QuotaState): Promise<void> {
+    for (const sessionId of Object.keys(state.sandboxes)) {
+      const session = this.env.SESSIONS.get(this.env.SESSIONS.idFromName(sessionId));
+      const record = await session.getRecord();
+      if (!record || record.sandboxDestroyed) {
+        delete state.sandboxes[sessionId];
+      }
+    }
+  }
+
+  /**
+   * Record a sandbox start for a session if the user is within their limits.
+   * Restarting a session that already holds a slot only counts against the rate limit.
+   */
+  async acquire(sessionId: string): Promise<QuotaDecision> {
+    const state = await this.load();
+    const now = Date.now();
+
+    state.starts = state.starts.filter(at => at > now - RATE_WINDOW_MS);
+    if (state.starts.length >= MAX_STARTS_PER_MINUTE) {
+      return {
+        allowed: false,
+        reason: 'rate_limited',
+        message: `Too many agent starts: at most ${MAX_STARTS_PER_MINUTE} per minute`,
+        retryAfter: Math.ceil((state.starts[0] + RATE_WINDOW_MS - now) / 1000)
+      };
+    }
+
+    if (!(sessionId in state.sandboxes) && Object.keys(state.sandboxes).length >= MAX_CONCURRENT_SANDBOXES) {
+      await this.pruneSandboxes(state);
+      if (Object.keys(state.sandboxes).length >= MAX_CONCURRENT_SANDBOXES) {
+        await this.save(state);
+        return {
+          allowed: false,
+          reason: 'too_many_sessions',
+          message: `Too many sessions: at most ${MAX_CONCURRENT_SANDBOXES} can run at once`,
+          retryAfter: SLOT_RETRY_AFTER_SECONDS
+        };
+      }
+    }
+
+    state.starts.push(now);
+    state.sandboxes[sessionId] ??= now;
+    await this.save(state);
+    return { allowed: true };
+  }
+
+  /**
+   * Free the session's slot once its sandbox is gone
+   */
+  async release(sessionId: string): Promise<void> {
+    const state = await this.load();
+    if (!(sessionId in state.sandboxes)) return;
+    delete state.sandboxes[sessionId];
+    await this.save(state);
+  }
+}
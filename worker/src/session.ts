@@ -0,0 +1,215 @@
+import { DurableObject } from 'cloudflare:workers';
+import { getSandbox } from '@cloudflare/sandbox';
+import type { Env } from './index';
+import { recordSandboxUsage } from './usage';
+
+export type SessionMode = 'interactive' | 'non-interactive';
+export type SessionStatus = 'starting' | 'running' | 'idle' | 'complete' | 'failed';
+
+export interface SessionRecord {
+  sessionId: string;
+  owner: string;
+  mode: SessionMode;
+  status: SessionStatus;
+  processId: string | null;
+  createdAt: number;
+  lastActivity: number;
+  sandboxStartedAt: number | null; // when the current sandbox started, for usage accounting
+  sandboxDestroyed: boolean;
+  usageToken: string; // secret the current agent process reports usage with, never sent to the browser
+}
+
+// Summary of a transcript entry, enough to drive status transitions
+export interface SessionActivity {
+  event: 'agent_message' | 'user_message';
+  type?: string;
+  status?: string; // how a prompt run ended, for complete messages
+}
+
+export const PROMPT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes without agent activity
+export const INTERACTIVE_IDLE_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes without keepalive or messages
+
+// Grace period after a session ends so the agent can flush its transcript
+const TEARDOWN_DELAY_MS = 10 * 1000;
+
+/**
+ * Per-session coordinator, keyed by sessionId.
+ * Tracks who owns the session and what it is doing, and uses alarms
+ * to tear down the sandbox once the session times out or finishes.
+ */
+export class AgentSession extends DurableObject<Env> {
+  private async load(): Promise<SessionRecord | null> {
+    return (await this.ctx.storage.get<SessionRecord>('record')) ?? null;
+  }
+
+  private async save(record: SessionRecord): Promise<void> {
+    await this.ctx.storage.put('record', record);
+  }
+
+  private timeoutFor(record: SessionRecord): number {
+    return record.mode === 'interactive' ? INTERACTIVE_IDLE_TIMEOUT_MS : PROMPT_TIMEOUT_MS;
+  }
+
+  private isFinished(record: SessionRecord): boolean {
+    return record.status === 'complete' || record.status === 'failed';
+  }
+
+  // Schedule the next check: soon after the session ends, otherwise at the inactivity deadline
+  private async scheduleAlarm(record: SessionRecord): Promise<void> {
+    if (record.sandboxDestroyed) {
+      await this.ctx.storage.deleteAlarm();
+      return;
+    }
+    const at = this.isFinished(record)
+      ? Date.now() + TEARDOWN_DELAY_MS
+      : record.lastActivity + this.timeoutFor(record);
+    await this.ctx.storage.setAlarm(at);
+  }
+
+  async getRecord(): Promise<SessionRecord | null> {
+    return this.load();
+  }
+
+  /**
+   * Claim the session for a user about to start a sandbox process.
+   * The first caller becomes the owner; returns null if someone else already owns it.
+   * Each claim issues a fresh usage token, so only the process started with it can report usage.
+   */
+  async claim(sessionId: string, owner: string, mode: SessionMode): Promise<SessionRecord | null> {
+    const existing = await this.load();
+    if (existing && existing.owner !== owner) {
+      return null;
+    }
+
+    const now = Date.now();
+    const record: SessionRecord = {
+      sessionId,
+      owner,
+      mode,
+      status: 'starting',
+      processId: null,
+      createdAt: existing?.createdAt ?? now,
+      lastActivity: now,
+      // A restart inside a sandbox that is still up keeps accounting from its first start
+      sandboxStartedAt: existing && !existing.sandboxDestroyed ? existing.sandboxStartedAt ?? null : null,
+      sandboxDestroyed: false,
+      usageToken: crypto.randomUUID()
+    };
+    await this.save(record);
+    await this.scheduleAlarm(record);
+    return record;
+  }
+
+  async markStarted(processId: string): Promise<void> {
+    const record = await this.load();
+    if (!record) return;
+    record.processId = processId;
+    record.sandboxStartedAt ??= Date.now();
+    // The agent may already have reported in through its transcript
+    if (record.status === 'starting') {
+      record.status = 'running';
+    }
+    record.lastActivity = Date.now();
+    await this.save(record);
+    await this.scheduleAlarm(record);
+  }
+
+  async markFailed(): Promise<void> {
+    const record = await this.load();
+    if (!record) return;
+    record.status = 'failed';
+    await this.save(record);
+    await this.scheduleAlarm(record);
+  }
+
+  /**
+   * End the session on request; the sandbox is torn down after the grace period
+   */
+  async markStopped(): Promise<void> {
+    const record = await this.load();
+    if (!record || this.isFinished(record)) return;
+    record.status = 'complete';
+    await this.save(record);
+    await this.scheduleAlarm(record);
+  }
+
+  /**
+   * Reset the inactivity timer (keepalive)
+   */
+  async touch(): Promise<void> {
+    const record = await this.load();
+    if (!record || this.isFinished(record)) return;
+    record.lastActivity = Date.now();
+    await this.save(record);
+    await this.scheduleAlarm(record);
+  }
+
+  /**
+   * Update status from channel traffic reported by the agent's transcript writes
+   */
+  async recordActivity(activity: SessionActivity[]): Promise<void> {
+    const record = await this.load();
+    if (!record || this.isFinished(record)) return;
+
+    for (const { event, type, status } of activity) {
+      if (event === 'user_message') {
+        record.status = 'running';
+      } else if (type === 'complete') {
+        record.status = status === 'error' || status === 'max_turns' ? 'failed' : 'complete';
+      } else if (type === 'error' && record.mode === 'non-interactive') {
+        record.status = 'failed';
+      } else if (record.mode === 'interactive' && (type === 'ready' || type === 'turn_complete')) {
+        // Interactive agents wait for the user after they are ready or have finished a turn
+        record.status = 'idle';
+      } else if (type === 'ready') {
+        record.status = 'running';
+      }
+    }
+
+    record.lastActivity = Date.now();
+    await this.save(record);
+    await this.scheduleAlarm(record);
+  }
+
+  async alarm(): Promise<void> {
+    const record = await this.load();
+    if (!record || record.sandboxDestroyed) return;
+
+    if (!this.isFinished(record)) {
+      const inactiveMs = Date.now() - record.lastActivity;
+      if (inactiveMs < this.timeoutFor(record)) {
+        await this.scheduleAlarm(record);
+        return;
+      }
+      console.log('Session timed out:', record.sessionId, 'mode:', record.mode, 'inactive ms:', inactiveMs);
+      // An idle interactive session simply ends; a prompt that stalls has failed
+      record.status = record.mode === 'interactive' ? 'complete' : 'failed';
+    }
+
+    console.log('Destroying sandbox for session:', record.sessionId);
+    try {
+      await getSandbox(this.env.SANDBOX, record.sessionId).destroy();
+    } catch (e) {
+      // Throwing makes the runtime retry the alarm with backoff
+      console.log('Error destroying sandbox:', e);
+      await this.save(record);
+      throw e;
+    }
+
+    record.sandboxDestroyed = true;
+    await this.save(record);
+
+    if (record.sandboxStartedAt) {
+      try {
+        await recordSandboxUsage(this.env, record.owner, record.sessionId, record.sandboxStartedAt, Date.now());
+      } catch (e) {
+        // Losing one row beats destroying the sandbox again
+        console.log('Error recording sandbox usage:', e);
+      }
+    }
+
+    // Give the owner's sandbox slot back
+    const quota = this.env.USER_QUOTAS.get(this.env.USER_QUOTAS.idFromName(record.owner));
+    await quota.release(record.sessionId);
+  }
+}
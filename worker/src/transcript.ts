@@ -0,0 +1,91 @@
+// Session transcripts stored in R2
+// Each flush from the agent is written as its own JSONL chunk under
+// sessions/<sessionId>/transcript/, so the transcript is append-only and
+// concurrent writers never overwrite each other.
+
+export interface TranscriptEntry {
+  event: 'agent_message' | 'user_message';
+  payload: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface Transcript {
+  userId: string;
+  entries: TranscriptEntry[];
+}
+
+function transcriptPrefix(sessionId: string): string {
+  return `sessions/${sessionId}/transcript/`;
+}
+
+/**
+ * Validate entries posted by the agent
+ */
+export function isTranscriptEntry(value: unknown): value is TranscriptEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (entry.event === 'agent_message' || entry.event === 'user_message') &&
+    typeof entry.timestamp === 'number' &&
+    !!entry.payload && typeof entry.payload === 'object';
+}
+
+/**
+ * Append a batch of entries as a new chunk
+ */
+export async function appendTranscript(
+  bucket: R2Bucket,
+  sessionId: string,
+  userId: string,
+  entries: TranscriptEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  // Keys sort by the first entry's timestamp so chunks list in write order
+  const firstTimestamp = String(entries[0].timestamp).padStart(15, '0');
+  const key = `${transcriptPrefix(sessionId)}${firstTimestamp}-${crypto.randomUUID()}.jsonl`;
+  const body = entries.map(entry => JSON.stringify(entry)).join('\n');
+
+  await bucket.put(key, body, {
+    httpMetadata: { contentType: 'application/x-ndjson' },
+    customMetadata: { userId }
+  });
+}
+
+/**
+ * Read all chunks of a transcript in order
+ */
+export async function readTranscript(bucket: R2Bucket, sessionId: string): Promise<Transcript | null> {
+  const keys: string[] = [];
+  let userId: string | null = null;
+  let cursor: string | undefined;
+
+  do {
+    const listing = await bucket.list({
+      prefix: transcriptPrefix(sessionId),
+      cursor,
+      include: ['customMetadata']
+    });
+    for (const object of listing.objects) {
+      userId ??= object.customMetadata?.userId ?? null;
+      keys.push(object.key);
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  if (keys.length === 0 || !userId) return null;
+
+  const entries: TranscriptEntry[] = [];
+  for (const key of keys.sort()) {
+    const object = await bucket.get(key);
+    if (!object) continue;
+    const text = await object.text();
+    for (const line of text.split('\n')) {
+      if (line) entries.push(JSON.parse(line) as TranscriptEntry);
+    }
+  }
+
+  // Chunks are ordered already; a stable sort fixes up chunks flushed in the same millisecond
+  entries.sort((a, b) => a.timestamp - b.timestamp);
+
+  return { userId, entries };
+}
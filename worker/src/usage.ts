@@ -0,0 +1,108 @@
+// Usage accounting in Supabase (agent_usage and agent_budgets)
+// Rows are written with the service role key, and users can read their own usage
+// through RLS but not write it. Turn rows still come from the agent, which runs in the
+// user's sandbox: the worker only takes them with the session's usage token and checks
+// they are plausible, but it has no way to confirm them against the API.
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Env } from './index';
+
+// Token usage and cost the Agent SDK reported for one result, as sent by the agent
+export interface TurnUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  limitUsd: number;
+  spentUsd: number;
+}
+
+function serviceClient(env: Env): SupabaseClient {
+  return createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false }
+  });
+}
+
+// Upper bounds for a single result; anything past them is not a real report
+const MAX_RESULT_TOKENS = 100_000_000;
+const MAX_RESULT_COST_USD = 1000;
+
+function isCount(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 0 && (value as number) <= MAX_RESULT_TOKENS;
+}
+
+/**
+ * Validate usage reported by the agent: a model the environment offers, whole token
+ * counts, and a positive cost (a result that cost nothing isn't reported)
+ */
+export function isTurnUsage(value: unknown, models: string[]): value is TurnUsage {
+  if (!value || typeof value !== 'object') return false;
+  const usage = value as Record<string, unknown>;
+  return typeof usage.model === 'string' && models.includes(usage.model) &&
+    isCount(usage.inputTokens) && isCount(usage.outputTokens) &&
+    isCount(usage.cacheReadInputTokens) && isCount(usage.cacheCreationInputTokens) &&
+    typeof usage.costUsd === 'number' && Number.isFinite(usage.costUsd) &&
+    usage.costUsd > 0 && usage.costUsd <= MAX_RESULT_COST_USD;
+}
+
+export async function recordTurnUsage(env: Env, userId: string, sessionId: string, usage: TurnUsage): Promise<void> {
+  const { error } = await serviceClient(env).from('agent_usage').insert({
+    user_id: userId,
+    session_id: sessionId,
+    kind: 'turn',
+    model: usage.model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cache_read_input_tokens: usage.cacheReadInputTokens,
+    cache_creation_input_tokens: usage.cacheCreationInputTokens,
+    cost_usd: usage.costUsd
+  });
+  if (error) throw new Error(`Failed to record usage: ${error.message}`);
+}
+
+export async function recordSandboxUsage(
+  env: Env,
+  userId: string,
+  sessionId: string,
+  startedAt: number,
+  stoppedAt: number
+): Promise<void> {
+  const { error } = await serviceClient(env).from('agent_usage').insert({
+    user_id: userId,
+    session_id: sessionId,
+    kind: 'sandbox',
+    started_at: new Date(startedAt).toISOString(),
+    stopped_at: new Date(stoppedAt).toISOString()
+  });
+  if (error) throw new Error(`Failed to record sandbox usage: ${error.message}`);
+}
+
+/**
+ * The user's monthly budget and what they have spent this month, or null if they have no budget
+ */
+export async function getBudgetStatus(env: Env, userId: string): Promise<BudgetStatus | null> {
+  const supabase = serviceClient(env);
+  const { data: budget, error: budgetError } = await supabase
+    .from('agent_budgets')
+    .select('monthly_limit_usd')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (budgetError) throw new Error(`Failed to load budget: ${budgetError.message}`);
+  if (!budget) return null;
+
+  const { data: spent, error: spentError } = await supabase.rpc('agent_month_cost', { p_user_id: userId });
+  if (spentError) throw new Error(`Failed to load spend: ${spentError.message}`);
+
+  return { limitUsd: Number(budget.monthly_limit_usd), spentUsd: Number(spent) };
+}
+
+// Seconds until the budget resets at the start of next month (UTC)
+export function secondsUntilNextMonth(now = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+}